@@ -0,0 +1,160 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Copy, ListOrdered, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { walletService, type Wallet, type WalletKey, type WalletAddress } from "@/services/walletService";
+import { hdWalletService, RECEIVE_CHAIN, CHANGE_CHAIN } from "@/services/hdWalletService";
+
+interface AddressIndexProps {
+  selectedWallet: Wallet;
+  walletKeys: WalletKey[];
+  onWalletUpdated: (wallet: Wallet) => void;
+}
+
+export const AddressIndex: React.FC<AddressIndexProps> = ({ selectedWallet, walletKeys, onWalletUpdated }) => {
+  const [addresses, setAddresses] = useState<WalletAddress[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadAddresses = useCallback(async () => {
+    try {
+      const walletAddresses = await walletService.getWalletAddresses(selectedWallet.id);
+      setAddresses(walletAddresses);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load wallet addresses",
+        variant: "destructive"
+      });
+    }
+  }, [selectedWallet, toast]);
+
+  useEffect(() => {
+    loadAddresses();
+  }, [loadAddresses]);
+
+  const nextUnusedAddress = async () => {
+    try {
+      setLoading(true);
+
+      // Reuse an already derived receive address after the current one if it has never received funds
+      const current = addresses.find(a => a.address === selectedWallet.address);
+      const unused = addresses.find(a =>
+        a.chain === RECEIVE_CHAIN &&
+        !a.is_used &&
+        a.address_index > (current?.address_index ?? -1)
+      );
+
+      let updatedWallet: Wallet;
+      if (unused) {
+        updatedWallet = await walletService.updateWallet(selectedWallet.id, {
+          address: unused.address,
+          script_hex: unused.script_hex
+        });
+      } else {
+        const result = await hdWalletService.issueNextAddress(selectedWallet, walletKeys, RECEIVE_CHAIN);
+        updatedWallet = result.wallet;
+      }
+
+      await loadAddresses();
+      onWalletUpdated(updatedWallet);
+
+      toast({
+        title: "New Receive Address",
+        description: updatedWallet.address || ''
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to derive the next address",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied to clipboard",
+      description: "Address copied successfully"
+    });
+  };
+
+  const renderAddresses = (chain: number) => {
+    const chainAddresses = addresses.filter(a => a.chain === chain);
+
+    if (chainAddresses.length === 0) {
+      return (
+        <p className="text-sm text-muted-foreground text-center py-6">
+          No {chain === RECEIVE_CHAIN ? 'receive' : 'change'} addresses derived yet
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-2">
+        {chainAddresses.map((walletAddress) => (
+          <div key={walletAddress.id} className="flex items-center gap-2 p-2 bg-muted rounded">
+            <Badge variant="outline" className="font-mono">
+              /{walletAddress.chain}/{walletAddress.address_index}
+            </Badge>
+            <code className="flex-1 text-xs break-all font-mono">{walletAddress.address}</code>
+            {walletAddress.address === selectedWallet.address && (
+              <Badge variant="default">Current</Badge>
+            )}
+            <Badge variant={walletAddress.is_used ? "secondary" : "outline"}>
+              {walletAddress.is_used ? "Used" : "Unused"}
+            </Badge>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => copyToClipboard(walletAddress.address)}
+            >
+              <Copy className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <ListOrdered className="h-5 w-5 text-primary" />
+            Address Index
+          </span>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={nextUnusedAddress}
+            disabled={loading || !selectedWallet.is_complete}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {loading ? "Deriving..." : "Next Unused Address"}
+          </Button>
+        </CardTitle>
+        <CardDescription>
+          Addresses derived from the co-signers' extended public keys at /0/i (receive) and /1/i (change)
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="receive">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="receive">Receive</TabsTrigger>
+            <TabsTrigger value="change">Change</TabsTrigger>
+          </TabsList>
+          <TabsContent value="receive">{renderAddresses(RECEIVE_CHAIN)}</TabsContent>
+          <TabsContent value="change">{renderAddresses(CHANGE_CHAIN)}</TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Gauge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { type Wallet, type WalletKey, type Transaction } from "@/services/walletService";
+import { feeBumpService } from "@/services/feeBumpService";
+
+interface BumpFeeDialogProps {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  transaction: Transaction;
+  onBumped: (replacement: Transaction) => void;
+}
+
+export const BumpFeeDialog: React.FC<BumpFeeDialogProps> = ({ wallet, walletKeys, transaction, onBumped }) => {
+  const [open, setOpen] = useState(false);
+  const [feeRate, setFeeRate] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const currentFeeRate = feeBumpService.getFeeRate(transaction);
+  const minimumFeeRate = feeBumpService.getMinimumFeeRate(transaction);
+
+  const openChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (isOpen) {
+      setFeeRate(String(minimumFeeRate));
+    }
+  };
+
+  const bumpFee = async () => {
+    try {
+      setLoading(true);
+      const replacement = await feeBumpService.bumpFee(wallet, walletKeys, transaction, parseFloat(feeRate));
+
+      setOpen(false);
+      onBumped(replacement);
+
+      toast({
+        title: "Replacement Created",
+        description: `New fee ${replacement.fee_satoshis} sats. Collect ${wallet.m} signatures and broadcast it to replace the original.`
+      });
+    } catch (error) {
+      toast({
+        title: "Fee Bump Failed",
+        description: error instanceof Error ? error.message : "Failed to build the replacement transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Gauge className="h-4 w-4 mr-2" />
+          Bump Fee
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Bump Fee</DialogTitle>
+          <DialogDescription>
+            Build a replace-by-fee transaction spending the same coins at a higher fee rate. The extra fee comes out of change, adding confirmed coins if needed, and the replacement needs {wallet.m} new signatures.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="text-sm text-muted-foreground">
+            Current: {transaction.fee_satoshis} sats ({currentFeeRate.toFixed(1)} sat/vB)
+          </div>
+          <Label htmlFor="bump-fee-rate">New Fee Rate (sat/vB)</Label>
+          <Input
+            id="bump-fee-rate"
+            type="number"
+            min={minimumFeeRate}
+            step="0.1"
+            value={feeRate}
+            onChange={(e) => setFeeRate(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            At least {minimumFeeRate} sat/vB to be relayed as a replacement
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={bumpFee}
+            disabled={loading || !feeRate || parseFloat(feeRate) < minimumFeeRate}
+          >
+            {loading ? "Building..." : "Create Replacement"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
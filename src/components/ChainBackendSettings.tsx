@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Blocks, Pickaxe, Server } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { chainBackendService, createMockChainBackend, CHAIN_BACKENDS, type ChainBackendType } from "@/services/chainBackendService";
+import { bitcoinService, NETWORKS, type NetworkName } from "@/services/bitcoinService";
+
+interface BackendForm {
+  backend: ChainBackendType;
+  url: string;
+}
+
+interface FundForm {
+  address: string;
+  amount: string;
+}
+
+const EMPTY_FUND_FORM: FundForm = { address: '', amount: '' };
+
+const getDefaultForms = () => {
+  return NETWORKS.reduce((forms, network) => {
+    const setting = chainBackendService.getDefaultSetting(network.value);
+    forms[network.value] = { backend: setting.backend, url: setting.url || '' };
+    return forms;
+  }, {} as Record<NetworkName, BackendForm>);
+};
+
+export const ChainBackendSettings: React.FC = () => {
+  const [forms, setForms] = useState<Record<NetworkName, BackendForm>>(getDefaultForms);
+  const [tipHeights, setTipHeights] = useState<Partial<Record<NetworkName, number>>>({});
+  const [fundForms, setFundForms] = useState<Partial<Record<NetworkName, FundForm>>>({});
+  const [loading, setLoading] = useState<NetworkName | null>(null);
+  const { toast } = useToast();
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const settings = await chainBackendService.getSettings();
+      setForms(current => {
+        const updated = { ...current };
+        settings.forEach(setting => {
+          if (bitcoinService.isNetworkName(setting.network)) {
+            updated[setting.network] = { backend: setting.backend as ChainBackendType, url: setting.url || '' };
+          }
+        });
+        return updated;
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load blockchain backend settings",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const updateForm = (networkName: NetworkName, updates: Partial<BackendForm>) => {
+    setForms(current => ({ ...current, [networkName]: { ...current[networkName], ...updates } }));
+  };
+
+  const updateFundForm = (networkName: NetworkName, updates: Partial<FundForm>) => {
+    setFundForms(current => ({ ...current, [networkName]: { ...EMPTY_FUND_FORM, ...current[networkName], ...updates } }));
+  };
+
+  const saveSetting = async (networkName: NetworkName) => {
+    const form = forms[networkName];
+    if (form.backend === 'electrum' && !/^wss?:\/\//.test(form.url.trim())) {
+      toast({
+        title: "Invalid Server URL",
+        description: "Electrum servers are reached over WebSocket: enter a ws:// or wss:// URL",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setLoading(networkName);
+      await chainBackendService.saveSetting(networkName, form.backend, form.backend === 'mock' ? null : form.url.trim() || null);
+      toast({
+        title: "Backend Saved",
+        description: `${bitcoinService.getNetworkLabel(networkName)} uses ${chainBackendService.getBackendLabel(form.backend)}`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save backend setting",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const testBackend = async (networkName: NetworkName) => {
+    const form = forms[networkName];
+    try {
+      setLoading(networkName);
+      const backend = chainBackendService.createBackend(form.backend, form.url.trim() || null, networkName);
+      const height = await backend.getTipHeight();
+      setTipHeights(current => ({ ...current, [networkName]: height }));
+      toast({
+        title: "Backend Reachable",
+        description: `Chain tip is at block ${height}`
+      });
+    } catch (error) {
+      toast({
+        title: "Backend Unreachable",
+        description: error instanceof Error ? error.message : "Failed to reach the backend",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(null);
+    }
+  };
+
+  const mineBlock = (networkName: NetworkName) => {
+    const height = createMockChainBackend(networkName).mine();
+    setTipHeights(current => ({ ...current, [networkName]: height }));
+  };
+
+  const fundMockAddress = (networkName: NetworkName) => {
+    const fundForm = fundForms[networkName] || EMPTY_FUND_FORM;
+    try {
+      const transaction = createMockChainBackend(networkName).fund(fundForm.address.trim(), bitcoinService.btcToSatoshis(fundForm.amount));
+      updateFundForm(networkName, EMPTY_FUND_FORM);
+      toast({
+        title: "Address Funded",
+        description: `Mock transaction ${transaction.getId()} is in the mempool until a block is mined`
+      });
+    } catch (error) {
+      toast({
+        title: "Funding Failed",
+        description: error instanceof Error ? error.message : "Failed to fund address",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="h-5 w-5 text-primary" />
+          Blockchain Backends
+        </CardTitle>
+        <CardDescription>
+          Choose where each network's wallets look up coins, fee rates and confirmations, and where transactions are broadcast
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {NETWORKS.map((network, i) => {
+          const form = forms[network.value];
+          const fundForm = fundForms[network.value] || EMPTY_FUND_FORM;
+          // A mock chain left on mainnet by an older setting gets no funding controls
+          const isMockChain = form.backend === 'mock' && chainBackendService.isBackendAllowed('mock', network.value);
+          return (
+            <div key={network.value} className="space-y-4">
+              {i > 0 && <Separator />}
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold">{network.label}</h4>
+                {tipHeights[network.value] !== undefined && (
+                  <Badge variant="secondary">
+                    <Blocks className="h-3 w-3 mr-1" />
+                    Tip {tipHeights[network.value]}
+                  </Badge>
+                )}
+              </div>
+
+              <div className="grid md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor={`backend-${network.value}`}>Backend</Label>
+                  <Select
+                    value={form.backend}
+                    onValueChange={(value) => updateForm(network.value, {
+                      backend: value as ChainBackendType,
+                      // Esplora has public defaults; Electrum servers must be entered
+                      url: value === 'esplora' ? chainBackendService.getDefaultEsploraUrl(network.value) : ''
+                    })}
+                  >
+                    <SelectTrigger id={`backend-${network.value}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {chainBackendService.getBackendOptions(network.value).map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {CHAIN_BACKENDS.find(option => option.value === form.backend)?.description}
+                  </p>
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor={`backend-url-${network.value}`}>Server URL</Label>
+                  <Input
+                    id={`backend-url-${network.value}`}
+                    placeholder={form.backend === 'electrum' ? 'wss://electrum.example.com:50004' : 'https://blockstream.info/api'}
+                    value={form.url}
+                    onChange={(e) => updateForm(network.value, { url: e.target.value })}
+                    disabled={form.backend === 'mock'}
+                    className="font-mono text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <Button size="sm" onClick={() => saveSetting(network.value)} disabled={loading === network.value}>
+                  Save
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => testBackend(network.value)} disabled={loading === network.value}>
+                  Test Connection
+                </Button>
+                {isMockChain && (
+                  <Button size="sm" variant="outline" onClick={() => mineBlock(network.value)}>
+                    <Pickaxe className="h-4 w-4 mr-2" />
+                    Mine Block
+                  </Button>
+                )}
+              </div>
+
+              {isMockChain && (
+                <div className="grid md:grid-cols-3 gap-4 items-end">
+                  <div className="md:col-span-2">
+                    <Label htmlFor={`fund-address-${network.value}`}>Fund Address</Label>
+                    <Input
+                      id={`fund-address-${network.value}`}
+                      placeholder="Address to pay on the mock chain"
+                      value={fundForm.address}
+                      onChange={(e) => updateFundForm(network.value, { address: e.target.value })}
+                      className="font-mono text-sm"
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Input
+                      type="number"
+                      step="0.00000001"
+                      placeholder="BTC"
+                      value={fundForm.amount}
+                      onChange={(e) => updateFundForm(network.value, { amount: e.target.value })}
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => fundMockAddress(network.value)}
+                      disabled={!fundForm.address.trim() || !fundForm.amount}
+                    >
+                      Fund
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,137 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { GitMerge } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { walletService, type Wallet, type WalletKey, type Transaction } from "@/services/walletService";
+import { psbtService } from "@/services/psbtService";
+
+interface CombinePsbtDialogProps {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  transaction: Transaction;
+  onCombined: (transaction: Transaction) => void;
+}
+
+export const CombinePsbtDialog: React.FC<CombinePsbtDialogProps> = ({ wallet, walletKeys, transaction, onCombined }) => {
+  const [open, setOpen] = useState(false);
+  const [psbtText, setPsbtText] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Signed .psbt files from SD-card signers are added to the list as base64
+  const loadFiles = async (files: FileList | null) => {
+    if (!files) return;
+
+    const loaded: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        loaded.push(psbtService.parsePsbt(new Uint8Array(await file.arrayBuffer()), wallet).toBase64());
+      } catch (error) {
+        toast({
+          title: "Invalid PSBT File",
+          description: `${file.name}: ${error instanceof Error ? error.message : 'could not be read'}`,
+          variant: "destructive"
+        });
+      }
+    }
+    setPsbtText(current => [current.trim(), ...loaded].filter(Boolean).join('\n'));
+  };
+
+  const combinePsbts = async () => {
+    if (!transaction.raw_transaction) return;
+
+    try {
+      setLoading(true);
+
+      // One base64 or hex PSBT per line, as signed by other co-signers' wallets
+      const others = psbtText
+        .split(/\s+/)
+        .filter(line => line.trim())
+        .map((line, i) => {
+          try {
+            return psbtService.parsePsbt(line, wallet);
+          } catch (error) {
+            throw new Error(`PSBT ${i + 1} is not a valid base64 or hex PSBT`);
+          }
+        });
+
+      const psbt = psbtService.combinePsbts(psbtService.fromBase64(transaction.raw_transaction, wallet), others);
+      const updates = psbtService.getTransactionUpdate(psbt, wallet, walletKeys, transaction.required_signatures);
+      const updated = await walletService.updateTransaction(transaction.id, updates);
+
+      setPsbtText('');
+      setOpen(false);
+      onCombined(updated);
+
+      toast({
+        title: updated.is_complete ? "Transaction Finalized" : "PSBTs Combined",
+        description: updated.is_complete
+          ? `Ready to broadcast: ${updated.transaction_hash}`
+          : `${psbtService.getSignatureCount(psbt)}/${transaction.required_signatures} signatures collected`
+      });
+    } catch (error) {
+      toast({
+        title: "Combine Failed",
+        description: error instanceof Error ? error.message : "Failed to combine PSBTs",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <GitMerge className="h-4 w-4 mr-2" />
+          Combine PSBTs
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Combine PSBTs</DialogTitle>
+          <DialogDescription>
+            Merge signatures from co-signers who signed this PSBT elsewhere. Each PSBT must spend the same inputs to the same outputs as this proposal. The transaction is finalized once {transaction.required_signatures} signatures are present.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="combine-psbt-files">Signed .psbt Files</Label>
+          <Input
+            id="combine-psbt-files"
+            type="file"
+            accept=".psbt,.txt"
+            multiple
+            onChange={(e) => { loadFiles(e.target.files); e.target.value = ''; }}
+          />
+        </div>
+
+        <div>
+          <Label htmlFor="combine-psbts">Signed PSBTs (base64 or hex, one per line)</Label>
+          <Textarea
+            id="combine-psbts"
+            placeholder="cHNidP8BA..."
+            value={psbtText}
+            onChange={(e) => setPsbtText(e.target.value)}
+            className="font-mono text-xs"
+            rows={6}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button
+            onClick={combinePsbts}
+            disabled={loading || !psbtText.trim()}
+          >
+            {loading ? "Combining..." : "Combine & Finalize"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Rocket } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { type Wallet, type WalletKey, type Utxo } from "@/services/walletService";
+import { feeBumpService, type CpfpPlan } from "@/services/feeBumpService";
+import { bitcoinService } from "@/services/bitcoinService";
+
+interface CpfpDialogProps {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  utxos: Utxo[];
+  onCreated: (wallet: Wallet) => void;
+}
+
+export const CpfpDialog: React.FC<CpfpDialogProps> = ({ wallet, walletKeys, utxos, onCreated }) => {
+  const [open, setOpen] = useState(false);
+  const [utxoId, setUtxoId] = useState('');
+  const [feeRate, setFeeRate] = useState('20');
+  const [plan, setPlan] = useState<CpfpPlan | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const candidates = feeBumpService.getCpfpCandidates(utxos);
+  const utxo = candidates.find(candidate => candidate.id === utxoId);
+
+  const calculate = async () => {
+    if (!utxo) return;
+
+    try {
+      setLoading(true);
+      setPlan(await feeBumpService.getCpfpPlan(wallet, utxo, parseFloat(feeRate)));
+    } catch (error) {
+      setPlan(null);
+      toast({
+        title: "Cannot Accelerate",
+        description: error instanceof Error ? error.message : "Failed to plan the child transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const createChild = async () => {
+    if (!utxo || !plan) return;
+
+    try {
+      setLoading(true);
+      const result = await feeBumpService.createChildPaysForParent(wallet, walletKeys, utxo, plan);
+
+      setPlan(null);
+      setUtxoId('');
+      setOpen(false);
+      onCreated(result.wallet);
+
+      toast({
+        title: "Child Transaction Created",
+        description: `Collect ${wallet.m} signatures and broadcast it to pull the parent in at ${plan.packageFeeRate.toFixed(1)} sat/vB`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create the child transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={candidates.length === 0}>
+          <Rocket className="h-4 w-4 mr-2" />
+          Accelerate (CPFP)
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Child Pays for Parent</DialogTitle>
+          <DialogDescription>
+            Spend a coin from an unconfirmed transaction back to the wallet with a fee high enough that miners take both
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="cpfp-coin">Unconfirmed Coin</Label>
+            <Select value={utxoId} onValueChange={(value) => { setUtxoId(value); setPlan(null); }}>
+              <SelectTrigger id="cpfp-coin">
+                <SelectValue placeholder="Select a coin" />
+              </SelectTrigger>
+              <SelectContent>
+                {candidates.map((candidate) => (
+                  <SelectItem key={candidate.id} value={candidate.id}>
+                    {bitcoinService.satoshisToBtc(candidate.value_satoshis)} BTC · {candidate.txid.substring(0, 12)}...:{candidate.vout}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="cpfp-fee-rate">Target Package Fee Rate (sat/vB)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="cpfp-fee-rate"
+                type="number"
+                min="1"
+                step="0.1"
+                value={feeRate}
+                onChange={(e) => { setFeeRate(e.target.value); setPlan(null); }}
+              />
+              <Button variant="outline" onClick={calculate} disabled={loading || !utxo || !feeRate}>
+                Calculate
+              </Button>
+            </div>
+          </div>
+
+          {plan && (
+            <div className="p-3 bg-muted rounded-lg text-sm grid grid-cols-2 gap-2">
+              <div>
+                <div className="text-xs text-muted-foreground">Parent</div>
+                {plan.parentVsize} vB · {plan.parentFee} sats ({(plan.parentFee / plan.parentVsize).toFixed(1)} sat/vB)
+              </div>
+              <div>
+                <div className="text-xs text-muted-foreground">Child</div>
+                {plan.childVsize} vB · {plan.childFee} sats
+              </div>
+              <div className="col-span-2">
+                <div className="text-xs text-muted-foreground">Package</div>
+                {plan.packageFeeRate.toFixed(1)} sat/vB
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={createChild} disabled={loading || !plan}>
+            {loading ? "Working..." : "Create Child Transaction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileInput } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { walletService, type Wallet } from "@/services/walletService";
+import { bitcoinService, NETWORKS, type NetworkName } from "@/services/bitcoinService";
+import { descriptorService } from "@/services/descriptorService";
+import { walletConfigService } from "@/services/walletConfigService";
+import { hdWalletService, RECEIVE_CHAIN } from "@/services/hdWalletService";
+import { chainBackendService } from "@/services/chainBackendService";
+import { IMPORTED_KEY_METHOD } from "@/services/keyProofService";
+
+type ImportFormat = 'descriptor' | 'config';
+
+interface DescriptorImportProps {
+  onImported: (wallet: Wallet) => void;
+}
+
+export const DescriptorImport: React.FC<DescriptorImportProps> = ({ onImported }) => {
+  const [format, setFormat] = useState<ImportFormat>('descriptor');
+  const [descriptor, setDescriptor] = useState('');
+  const [name, setName] = useState('Imported Wallet');
+  const [network, setNetwork] = useState<NetworkName>('mainnet');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const loadConfigFile = async (file: File | undefined) => {
+    if (!file) return;
+    setDescriptor(await file.text());
+  };
+
+  const importDescriptor = async () => {
+    let parsed;
+    try {
+      parsed = format === 'descriptor'
+        ? descriptorService.parseDescriptor(descriptor, name.trim(), network)
+        : walletConfigService.parseWalletConfig(descriptor, name.trim(), network);
+    } catch (error) {
+      toast({
+        title: format === 'descriptor' ? "Invalid Descriptor" : "Invalid Config File",
+        description: error instanceof Error ? error.message : "Failed to parse wallet",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const wallet = await walletService.createWallet(parsed.wallet);
+      const walletKeys = [];
+      // Imported keys come without a proof of control, so they are recorded and shown as unverified
+      for (const key of parsed.keys) {
+        walletKeys.push(await walletService.addWalletKey({ ...key, wallet_id: wallet.id, verification_method: IMPORTED_KEY_METHOD }));
+      }
+
+      // Derive the wallet address the same way Setup does once all keys are present
+      let completedWallet: Wallet;
+      if (wallet.is_hd) {
+        // The wallet may already be in use elsewhere; start after the addresses its other coordinators used
+        let scannedWallet = wallet;
+        try {
+          const backend = await chainBackendService.getBackend(bitcoinService.isNetworkName(wallet.network) ? wallet.network : network);
+          scannedWallet = await chainBackendService.discoverWalletAddresses(backend, wallet, walletKeys);
+        } catch (error) {
+          toast({
+            title: "Address Scan Skipped",
+            description: `Could not scan for used addresses (${error instanceof Error ? error.message : 'backend unavailable'}). Sync coins once the backend is reachable.`,
+            variant: "destructive"
+          });
+        }
+        await hdWalletService.issueNextAddress(scannedWallet, walletKeys, RECEIVE_CHAIN);
+        completedWallet = await walletService.updateWallet(wallet.id, { is_complete: true });
+      } else {
+        const multisigResult = bitcoinService.createMultisigAddress(
+          wallet.m,
+          walletKeys.map(k => k.public_key),
+          bitcoinService.getMultisigOptions(wallet)
+        );
+        if (!multisigResult) {
+          throw new Error('Failed to generate multisig address');
+        }
+        completedWallet = await walletService.updateWallet(wallet.id, {
+          address: multisigResult.address,
+          script_hex: multisigResult.scriptHex,
+          is_complete: true
+        });
+      }
+
+      setDescriptor('');
+      onImported(completedWallet);
+
+      toast({
+        title: "Wallet Imported",
+        description: `${wallet.m}-of-${wallet.n} ${bitcoinService.getScriptTypeLabel(wallet.script_type)} wallet imported from ${format === 'descriptor' ? 'descriptor' : 'config file'}. Its keys are marked unverified (imported).`
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to import wallet from ${format === 'descriptor' ? 'descriptor' : 'config file'}`,
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileInput className="h-5 w-5 text-primary" />
+          Import Wallet
+        </CardTitle>
+        <CardDescription>
+          Bring in a multisig wallet from Sparrow, Bitcoin Core or Specter, or a Coldcard multisig setup file
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div>
+            <Label htmlFor="descriptor-name">{format === 'config' ? 'Wallet Name (if the file has none)' : 'Wallet Name'}</Label>
+            <Input
+              id="descriptor-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label htmlFor="descriptor-network">Network</Label>
+            <Select value={network} onValueChange={(value) => setNetwork(value as NetworkName)}>
+              <SelectTrigger id="descriptor-network">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {NETWORKS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <div>
+          <Label htmlFor="import-format">Format</Label>
+          <Select value={format} onValueChange={(value) => { setFormat(value as ImportFormat); setDescriptor(''); }}>
+            <SelectTrigger id="import-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="descriptor">Output Descriptor</SelectItem>
+              <SelectItem value="config">Coldcard / Sparrow Config File</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {format === 'config' && (
+          <div>
+            <Label htmlFor="config-file">Config File</Label>
+            <Input
+              id="config-file"
+              type="file"
+              accept=".txt"
+              onChange={(e) => loadConfigFile(e.target.files?.[0])}
+            />
+          </div>
+        )}
+        <div>
+          <Label htmlFor="descriptor">{format === 'descriptor' ? 'Descriptor' : 'Config'}</Label>
+          <Textarea
+            id="descriptor"
+            placeholder={format === 'descriptor'
+              ? "wsh(sortedmulti(2,[fingerprint/48h/0h/0h/2h]xpub.../0/*,...))#checksum"
+              : "Name: My Wallet\nPolicy: 2 of 3\nDerivation: m/48'/0'/0'/2'\nFormat: P2WSH\n\nA0C551EE: xpub..."}
+            value={descriptor}
+            onChange={(e) => setDescriptor(e.target.value)}
+            className="font-mono text-xs"
+            rows={format === 'descriptor' ? 4 : 8}
+          />
+        </div>
+        <Button
+          onClick={importDescriptor}
+          disabled={loading || !descriptor.trim() || !name.trim()}
+          className="w-full"
+        >
+          {loading ? "Importing..." : "Import Wallet"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
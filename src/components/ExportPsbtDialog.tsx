@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Copy, Download, FileDown } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { type Wallet, type Transaction } from "@/services/walletService";
+import { psbtService } from "@/services/psbtService";
+
+interface ExportPsbtDialogProps {
+  wallet: Wallet;
+  transaction: Transaction;
+}
+
+export const ExportPsbtDialog: React.FC<ExportPsbtDialogProps> = ({ wallet, transaction }) => {
+  const [open, setOpen] = useState(false);
+  const { toast } = useToast();
+
+  const psbtBase64 = transaction.raw_transaction || '';
+  // Signing devices list files by name, so include the wallet and proposal
+  const fileName = `${wallet.name.replace(/[^a-zA-Z0-9_-]+/g, '-')}-${transaction.id.substring(0, 8)}`;
+
+  const downloadFile = (contents: BlobPart, type: string, extension: string) => {
+    const blob = new Blob([contents], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${fileName}.${extension}`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: "PSBT Exported",
+      description: `Saved ${fileName}.${extension}`
+    });
+  };
+
+  const copyPsbt = () => {
+    navigator.clipboard.writeText(psbtBase64);
+    toast({
+      title: "Copied to clipboard",
+      description: "PSBT copied successfully"
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!psbtBase64}>
+          <FileDown className="h-4 w-4 mr-2" />
+          Export PSBT
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Export PSBT</DialogTitle>
+          <DialogDescription>
+            Save the PSBT to an SD card for a hardware signer, or copy it as text. Load the signed file back with Combine PSBTs.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div>
+          <Label htmlFor="export-psbt">PSBT (base64)</Label>
+          <Textarea
+            id="export-psbt"
+            value={psbtBase64}
+            readOnly
+            className="font-mono text-xs"
+            rows={6}
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={copyPsbt}>
+            <Copy className="h-4 w-4 mr-2" />
+            Copy
+          </Button>
+          <Button variant="outline" onClick={() => downloadFile(psbtBase64, 'text/plain', 'txt')}>
+            <Download className="h-4 w-4 mr-2" />
+            Base64 .txt
+          </Button>
+          <Button onClick={() => downloadFile(psbtService.fromBase64(psbtBase64, wallet).toBuffer(), 'application/octet-stream', 'psbt')}>
+            <Download className="h-4 w-4 mr-2" />
+            Binary .psbt
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,258 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertCircle, KeyRound } from "lucide-react";
+import { hdWalletService, MNEMONIC_LENGTHS, type ExtendedKeyInfo, type MnemonicLength } from "@/services/hdWalletService";
+import { type NetworkName, type ScriptType } from "@/services/bitcoinService";
+
+// Number of words the co-signer re-enters to show they wrote the mnemonic down
+const CONFIRM_WORD_COUNT = 3;
+
+type CreateStep = 'options' | 'words' | 'confirm';
+
+interface MnemonicKeyDialogProps {
+  scriptType: ScriptType;
+  network: NetworkName;
+  onKey: (key: ExtendedKeyInfo & { xprv: string }) => void;
+}
+
+export const MnemonicKeyDialog: React.FC<MnemonicKeyDialogProps> = ({ scriptType, network, onKey }) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState('create');
+  const [step, setStep] = useState<CreateStep>('options');
+  const [wordCount, setWordCount] = useState<MnemonicLength>(24);
+  const [mnemonic, setMnemonic] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  // A mistyped passphrase silently gives a different key, so new ones are entered twice
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [confirmPositions, setConfirmPositions] = useState<number[]>([]);
+  const [confirmWords, setConfirmWords] = useState<Record<number, string>>({});
+  const [restoreWords, setRestoreWords] = useState('');
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const words = mnemonic ? mnemonic.split(' ') : [];
+
+  // Forget the words whenever the dialog closes
+  const openChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setStep('options');
+      setMnemonic('');
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setConfirmPositions([]);
+      setConfirmWords({});
+      setRestoreWords('');
+      setRestorePassphrase('');
+      setError(null);
+    }
+  };
+
+  const generateWords = () => {
+    setMnemonic(hdWalletService.generateMnemonic(wordCount));
+    setError(null);
+    setStep('words');
+  };
+
+  // Ask for a few random positions, in order
+  const startConfirm = () => {
+    const positions = new Set<number>();
+    while (positions.size < CONFIRM_WORD_COUNT) {
+      positions.add(crypto.getRandomValues(new Uint32Array(1))[0] % words.length);
+    }
+    setConfirmPositions([...positions].sort((a, b) => a - b));
+    setConfirmWords({});
+    setError(null);
+    setStep('confirm');
+  };
+
+  const deriveKey = (phrase: string, keyPassphrase: string) => {
+    try {
+      onKey(hdWalletService.deriveMnemonicKey(phrase, keyPassphrase, scriptType, network));
+      openChange(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to derive the key');
+    }
+  };
+
+  const confirmMnemonic = () => {
+    const wrong = confirmPositions.filter(position => (confirmWords[position] || '').trim().toLowerCase() !== words[position]);
+    if (wrong.length > 0) {
+      setError(`Word${wrong.length === 1 ? '' : 's'} ${wrong.map(position => `#${position + 1}`).join(', ')} ${wrong.length === 1 ? 'does' : 'do'} not match. Check your copy, or go back to the words.`);
+      return;
+    }
+    deriveKey(mnemonic, passphrase);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <KeyRound className="h-4 w-4 mr-2" />
+          Generate
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Co-signer Key from Recovery Words</DialogTitle>
+          <DialogDescription>
+            Create a BIP39 mnemonic for a new co-signer key, or restore one, derived at {hdWalletService.getDefaultDerivationPath(scriptType, network)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => { setTab(value); setError(null); }}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="create">Create</TabsTrigger>
+            <TabsTrigger value="restore">Restore</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="create" className="space-y-4">
+            {step === 'options' && (
+              <>
+                <div>
+                  <Label htmlFor="mnemonic-length">Words</Label>
+                  <Select value={String(wordCount)} onValueChange={(value) => setWordCount(Number(value) as MnemonicLength)}>
+                    <SelectTrigger id="mnemonic-length">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MNEMONIC_LENGTHS.map((length) => (
+                        <SelectItem key={length} value={String(length)}>
+                          {length} words
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="mnemonic-passphrase">Passphrase (optional)</Label>
+                  <Input
+                    id="mnemonic-passphrase"
+                    type="password"
+                    value={passphrase}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    The passphrase is needed with the words to restore the key. It cannot be recovered if lost.
+                  </p>
+                </div>
+                {passphrase && (
+                  <div>
+                    <Label htmlFor="mnemonic-passphrase-confirm">Confirm Passphrase</Label>
+                    <Input
+                      id="mnemonic-passphrase-confirm"
+                      type="password"
+                      value={confirmPassphrase}
+                      onChange={(e) => setConfirmPassphrase(e.target.value)}
+                    />
+                    {confirmPassphrase && confirmPassphrase !== passphrase && (
+                      <p className="text-xs text-destructive mt-1">Passphrases do not match</p>
+                    )}
+                  </div>
+                )}
+              </>
+            )}
+
+            {step === 'words' && (
+              <>
+                <div className="flex items-start gap-2 p-3 bg-yellow-50 dark:bg-yellow-900/20 rounded-lg">
+                  <AlertCircle className="h-4 w-4 text-yellow-600 mt-0.5" />
+                  <p className="text-sm text-yellow-700 dark:text-yellow-300">
+                    Write these words down on paper, in order. Anyone who sees them can sign for this key, and they are forgotten once this dialog closes.
+                  </p>
+                </div>
+                <ol className="grid grid-cols-3 gap-2">
+                  {words.map((word, index) => (
+                    <li key={index} className="p-2 bg-muted rounded font-mono text-sm">
+                      <span className="text-muted-foreground mr-1">{index + 1}.</span>
+                      {word}
+                    </li>
+                  ))}
+                </ol>
+              </>
+            )}
+
+            {step === 'confirm' && (
+              <div className="space-y-3">
+                <p className="text-sm text-muted-foreground">Enter these words from your written copy</p>
+                {confirmPositions.map((position) => (
+                  <div key={position}>
+                    <Label htmlFor={`confirm-word-${position}`}>Word #{position + 1}</Label>
+                    <Input
+                      id={`confirm-word-${position}`}
+                      value={confirmWords[position] || ''}
+                      onChange={(e) => setConfirmWords(prev => ({ ...prev, [position]: e.target.value }))}
+                      autoComplete="off"
+                      className="font-mono"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="restore" className="space-y-4">
+            <div>
+              <Label htmlFor="restore-words">Recovery Words</Label>
+              <Textarea
+                id="restore-words"
+                placeholder="Enter the 12 or 24 words, separated by spaces"
+                value={restoreWords}
+                onChange={(e) => setRestoreWords(e.target.value)}
+                autoComplete="off"
+                className="font-mono text-sm"
+                rows={4}
+              />
+            </div>
+            <div>
+              <Label htmlFor="restore-passphrase">Passphrase (optional)</Label>
+              <Input
+                id="restore-passphrase"
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+              />
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        {error && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {error}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2">
+          {tab === 'restore' && (
+            <Button onClick={() => deriveKey(restoreWords, restorePassphrase)} disabled={!restoreWords.trim()}>
+              Restore Key
+            </Button>
+          )}
+          {tab === 'create' && step === 'options' && (
+            <Button onClick={generateWords} disabled={!!passphrase && passphrase !== confirmPassphrase}>Generate Words</Button>
+          )}
+          {tab === 'create' && step === 'words' && (
+            <Button onClick={startConfirm}>I Have Written Them Down</Button>
+          )}
+          {tab === 'create' && step === 'confirm' && (
+            <>
+              <Button variant="outline" onClick={() => { setStep('words'); setError(null); }}>
+                Show Words Again
+              </Button>
+              <Button onClick={confirmMnemonic} disabled={confirmPositions.some(position => !confirmWords[position]?.trim())}>
+                Confirm & Use Key
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
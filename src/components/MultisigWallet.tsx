@@ -1,17 +1,59 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { Copy, Shield, Key, Send, Users, Bitcoin, ArrowRight, CheckCircle, LogOut, AlertCircle, Trash2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Shield, Key, Send, Users, Bitcoin, CheckCircle, LogOut, AlertCircle, Trash2, RefreshCw, Settings, Radio, Plus, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
-import { walletService, type Wallet, type WalletKey, type Transaction } from "@/services/walletService";
-import { bitcoinService } from "@/services/bitcoinService";
+import { walletService, type Wallet, type WalletKey, type Transaction, type TransactionOutput, type Utxo } from "@/services/walletService";
+import { hdWalletService, RECEIVE_CHAIN, type ExtendedKeyInfo } from "@/services/hdWalletService";
+import { descriptorService, type WalletDescriptors } from "@/services/descriptorService";
+import { walletConfigService } from "@/services/walletConfigService";
+import { psbtService, DUST_THRESHOLD, type PsbtInput } from "@/services/psbtService";
+import { coinSelectionService, COIN_SELECTION_STRATEGIES, type CoinSelection, type CoinSelectionStrategy, type SpendableUtxo } from "@/services/coinSelectionService";
+import { chainBackendService } from "@/services/chainBackendService";
+import { broadcastService } from "@/services/broadcastService";
+import { feeBumpService } from "@/services/feeBumpService";
+import { type PayoutRow } from "@/services/payoutCsvService";
+import { paymentUriService } from "@/services/paymentUriService";
+import { signerService, type SignerType } from "@/services/signerService";
+import { keyProofService, type KeyProofMethod } from "@/services/keyProofService";
+import { bitcoinService, NETWORKS, SCRIPT_TYPES, type NetworkName, type ScriptType } from "@/services/bitcoinService";
 import { PrivateKeyBackup } from "./PrivateKeyBackup";
+import { AddressIndex } from "./AddressIndex";
+import { SignTransactionDialog } from "./SignTransactionDialog";
+import { CombinePsbtDialog } from "./CombinePsbtDialog";
+import { PsbtQrDialog } from "./PsbtQrDialog";
+import { ExportPsbtDialog } from "./ExportPsbtDialog";
+import { BumpFeeDialog } from "./BumpFeeDialog";
+import { CpfpDialog } from "./CpfpDialog";
+import { DescriptorImport } from "./DescriptorImport";
+import { ChainBackendSettings } from "./ChainBackendSettings";
+import { PayoutCsvImport } from "./PayoutCsvImport";
+import { ReceivePayment } from "./ReceivePayment";
+import { MnemonicKeyDialog } from "./MnemonicKeyDialog";
+
+// How often broadcast transactions are checked for confirmations
+const CONFIRMATION_POLL_INTERVAL = 30000;
+
+// Confirmation target, in blocks, for backend fee rate estimates
+const FEE_ESTIMATE_TARGET_BLOCKS = 6;
+
+interface RecipientForm {
+  address: string;
+  amountBtc: string;
+  label: string;
+}
+
+const EMPTY_RECIPIENT: RecipientForm = { address: '', amountBtc: '', label: '' };
 
 interface MultisigConfig {
   m: number;
@@ -19,38 +61,57 @@ interface MultisigConfig {
   publicKeys: string[];
   address?: string;
   name: string;
+  scriptType: ScriptType;
+  network: NetworkName;
+  sortedKeys: boolean;
+  isHd: boolean;
 }
 
+const getWalletScriptType = (wallet: Wallet | null): ScriptType | undefined => {
+  if (!wallet) return undefined;
+  return bitcoinService.isScriptType(wallet.script_type) ? wallet.script_type : 'p2sh';
+};
+
+const getWalletNetwork = (wallet: Wallet | null): NetworkName | undefined => {
+  if (!wallet) return undefined;
+  return bitcoinService.isNetworkName(wallet.network) ? wallet.network : 'mainnet';
+};
+
 export const MultisigWallet = () => {
-  const [config, setConfig] = useState<MultisigConfig>({ m: 2, n: 3, publicKeys: [], name: 'My Wallet' });
+  const [config, setConfig] = useState<MultisigConfig>({ m: 2, n: 3, publicKeys: [], name: 'My Wallet', scriptType: 'p2wsh', network: 'mainnet', sortedKeys: true, isHd: true });
   const [newPubKey, setNewPubKey] = useState('');
+  const [newFingerprint, setNewFingerprint] = useState('');
+  const [newDerivationPath, setNewDerivationPath] = useState('');
+  // Private keys generated in this session, by public key, so they can be stored in the encrypted backup
+  const [generatedPrivateKeys, setGeneratedPrivateKeys] = useState<Record<string, string>>({});
+  // Message the next co-signer signs to prove they control the key they add
+  const [keyChallenge, setKeyChallenge] = useState('');
+  const [keySignature, setKeySignature] = useState('');
   const [wallets, setWallets] = useState<Wallet[]>([]);
   const [selectedWallet, setSelectedWallet] = useState<Wallet | null>(null);
   const [walletKeys, setWalletKeys] = useState<WalletKey[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
+  const [utxos, setUtxos] = useState<Utxo[]>([]);
+  const [walletAddresses, setWalletAddresses] = useState<string[]>([]);
+  const [coinSelectionStrategy, setCoinSelectionStrategy] = useState<CoinSelectionStrategy>('auto');
+  // Utxo ids ticked for the manual strategy
+  const [manualCoinIds, setManualCoinIds] = useState<string[]>([]);
+  const [fundingTxHex, setFundingTxHex] = useState('');
+  const [recipients, setRecipients] = useState<RecipientForm[]>([{ ...EMPTY_RECIPIENT }]);
+  const [transactionOutputs, setTransactionOutputs] = useState<Record<string, TransactionOutput[]>>({});
+  const [feeRate, setFeeRate] = useState('10');
+  const [feePreview, setFeePreview] = useState<CoinSelection<SpendableUtxo> | null>(null);
+  const [feePreviewError, setFeePreviewError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
   const { signOut, user } = useAuth();
 
-  // Load user wallets on component mount
-  useEffect(() => {
-    loadWallets();
-  }, []);
-
-  // Load wallet keys and transactions when a wallet is selected
-  useEffect(() => {
-    if (selectedWallet) {
-      loadWalletKeys(selectedWallet.id);
-      loadTransactions(selectedWallet.id);
-    }
-  }, [selectedWallet]);
-
-  const loadWallets = async () => {
+  const loadWallets = useCallback(async () => {
     try {
       const userWallets = await walletService.getUserWallets();
       setWallets(userWallets);
-      if (userWallets.length > 0 && !selectedWallet) {
-        setSelectedWallet(userWallets[0]);
+      if (userWallets.length > 0) {
+        setSelectedWallet(current => current || userWallets[0]);
       }
     } catch (error) {
       toast({
@@ -59,9 +120,9 @@ export const MultisigWallet = () => {
         variant: "destructive"
       });
     }
-  };
+  }, [toast]);
 
-  const loadWalletKeys = async (walletId: string) => {
+  const loadWalletKeys = useCallback(async (walletId: string) => {
     try {
       const keys = await walletService.getWalletKeys(walletId);
       setWalletKeys(keys);
@@ -72,7 +133,11 @@ export const MultisigWallet = () => {
         publicKeys: keys.map(k => k.public_key),
         m: selectedWallet?.m || prev.m,
         n: selectedWallet?.n || prev.n,
-        address: selectedWallet?.address || undefined
+        address: selectedWallet?.address || undefined,
+        scriptType: getWalletScriptType(selectedWallet) || prev.scriptType,
+        network: getWalletNetwork(selectedWallet) || prev.network,
+        sortedKeys: selectedWallet ? selectedWallet.sorted_keys : prev.sortedKeys,
+        isHd: selectedWallet ? selectedWallet.is_hd : prev.isHd
       }));
     } catch (error) {
       toast({
@@ -81,12 +146,43 @@ export const MultisigWallet = () => {
         variant: "destructive"
       });
     }
-  };
+  }, [selectedWallet, toast]);
+
+  const loadUtxos = useCallback(async (walletId: string) => {
+    try {
+      const walletUtxos = await walletService.getWalletUtxos(walletId);
+      setUtxos(walletUtxos);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load coins",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  const loadWalletAddresses = useCallback(async (wallet: Wallet) => {
+    try {
+      const derived = wallet.is_hd ? await walletService.getWalletAddresses(wallet.id) : [];
+      setWalletAddresses([...(wallet.address ? [wallet.address] : []), ...derived.map(address => address.address)]);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to load wallet addresses",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
 
-  const loadTransactions = async (walletId: string) => {
+  const loadTransactions = useCallback(async (walletId: string) => {
     try {
       const walletTransactions = await walletService.getWalletTransactions(walletId);
+      const outputs = await walletService.getTransactionOutputs(walletTransactions.map(tx => tx.id));
       setTransactions(walletTransactions);
+      setTransactionOutputs(outputs.reduce((byTransaction, output) => {
+        (byTransaction[output.transaction_id] ||= []).push(output);
+        return byTransaction;
+      }, {} as Record<string, TransactionOutput[]>));
     } catch (error) {
       toast({
         title: "Error",
@@ -94,27 +190,216 @@ export const MultisigWallet = () => {
         variant: "destructive"
       });
     }
+  }, [toast]);
+
+  /**
+   * Select coins paying the form's recipients at its fee rate; the manual strategy only considers the ticked coins
+   */
+  const selectWalletCoins = useCallback(<T extends SpendableUtxo & { utxoId: string }>(wallet: Wallet, candidates: T[]) => {
+    const walletNetwork = getWalletNetwork(wallet);
+    const manual = coinSelectionStrategy === 'manual';
+    if (manual && !candidates.some(utxo => manualCoinIds.includes(utxo.utxoId))) {
+      throw new Error('Choose the coins to spend');
+    }
+    return coinSelectionService.selectCoins({
+      utxos: manual ? candidates.filter(utxo => manualCoinIds.includes(utxo.utxoId)) : candidates,
+      target: recipients.reduce((total, r) => total + bitcoinService.btcToSatoshis(r.amountBtc), 0),
+      feeRate: parseFloat(feeRate),
+      scriptType: getWalletScriptType(wallet),
+      m: wallet.m,
+      n: wallet.n,
+      outputTypes: recipients.map(r => bitcoinService.getOutputType(r.address.trim(), walletNetwork)),
+      strategy: coinSelectionStrategy
+    });
+  }, [coinSelectionStrategy, manualCoinIds, recipients, feeRate]);
+
+  const refreshTransactionStatuses = useCallback(async () => {
+    if (!selectedWallet) return;
+
+    try {
+      const pending = transactions.filter(tx => broadcastService.needsRefresh(tx));
+      // A backend error leaves that transaction's status unknown until the next check, without holding up the others
+      const updated = await Promise.all(pending.map(tx => broadcastService.refreshTransactionStatus(selectedWallet, tx).catch((error) => {
+        console.error('Failed to refresh transaction status', error);
+        return tx;
+      })));
+
+      if (updated.some((tx, i) => tx !== pending[i])) {
+        await loadTransactions(selectedWallet.id);
+        if (updated.some(tx => tx.broadcast_status === 'dropped')) {
+          await loadUtxos(selectedWallet.id);
+        }
+      }
+    } catch (error) {
+      // Polling retries on the next interval; a backend outage should not spam the user
+      console.error('Failed to refresh transaction status', error);
+    }
+  }, [selectedWallet, transactions, loadTransactions, loadUtxos]);
+
+  // Load user wallets on component mount
+  useEffect(() => {
+    loadWallets();
+  }, [loadWallets]);
+
+  // Load wallet keys and transactions when a wallet is selected
+  useEffect(() => {
+    if (selectedWallet) {
+      loadWalletKeys(selectedWallet.id);
+      loadTransactions(selectedWallet.id);
+      loadUtxos(selectedWallet.id);
+      loadWalletAddresses(selectedWallet);
+    }
+  }, [selectedWallet, loadWalletKeys, loadTransactions, loadUtxos, loadWalletAddresses]);
+
+  // Issue a fresh key proof challenge for each wallet
+  const selectedWalletId = selectedWallet?.id;
+  useEffect(() => {
+    setKeyChallenge(selectedWalletId ? keyProofService.createChallenge(selectedWalletId) : '');
+    setKeySignature('');
+  }, [selectedWalletId]);
+
+  // Poll broadcast transactions until they are buried deep enough, or replaced or dropped
+  useEffect(() => {
+    if (!selectedWallet || !transactions.some(tx => broadcastService.needsRefresh(tx))) return;
+
+    const interval = setInterval(() => refreshTransactionStatuses(), CONFIRMATION_POLL_INTERVAL);
+    return () => clearInterval(interval);
+  }, [selectedWallet, transactions, refreshTransactionStatuses]);
+
+  // Preview the coins, size and fee of the spend as the form is filled in
+  useEffect(() => {
+    setFeePreview(null);
+    setFeePreviewError(null);
+    if (!selectedWallet || !recipients.every(r => r.amountBtc && bitcoinService.isValidAddress(r.address.trim(), getWalletNetwork(selectedWallet)))) return;
+
+    try {
+      const candidates = utxos
+        .filter(utxo => !utxo.spent_by_txid && !utxo.locked_by)
+        .map(utxo => ({ utxoId: utxo.id, txid: utxo.txid, vout: utxo.vout, value: utxo.value_satoshis, confirmationHeight: utxo.confirmation_height }));
+      setFeePreview(selectWalletCoins(selectedWallet, candidates));
+    } catch (error) {
+      setFeePreviewError(error instanceof Error ? error.message : 'Could not fund this transaction');
+    }
+  }, [selectedWallet, utxos, recipients, selectWalletCoins]);
+
+  // Parse a recipient address for the form, flagging payments back into this wallet
+  const checkRecipientAddress = (address: string) => {
+    if (!selectedWallet || !address.trim()) return null;
+    try {
+      // A payment URI left in the field failed to parse; report why
+      if (paymentUriService.isPaymentUri(address)) {
+        paymentUriService.parsePaymentUri(address, getWalletNetwork(selectedWallet));
+      }
+      const parsed = bitcoinService.parseAddress(address, getWalletNetwork(selectedWallet));
+      return { parsed, error: null, isOwn: walletAddresses.includes(parsed.address) };
+    } catch (error) {
+      return { parsed: null, error: error instanceof Error ? error.message : 'Invalid address', isOwn: false };
+    }
   };
 
-  const generateRandomKey = () => {
-    const keyPair = bitcoinService.generateKeyPair();
-    setNewPubKey(keyPair.publicKey);
+  const syncCoins = async () => {
+    if (!selectedWallet) return;
+
+    try {
+      setLoading(true);
+      const backend = await chainBackendService.getBackend(getWalletNetwork(selectedWallet));
+      const { wallet, count } = await chainBackendService.syncWalletUtxos(backend, selectedWallet, walletKeys);
+      await loadUtxos(selectedWallet.id);
+      // Discovery may have found addresses used elsewhere and moved the receive address on
+      if (wallet !== selectedWallet) {
+        setSelectedWallet(wallet);
+        await loadWallets();
+      }
+
+      toast({
+        title: "Coins Synced",
+        description: `${chainBackendService.getBackendLabel(backend.type)} reports ${count} unspent coin${count === 1 ? '' : 's'}`
+      });
+    } catch (error) {
+      toast({
+        title: "Sync Failed",
+        description: error instanceof Error ? error.message : "Failed to sync coins",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
   };
 
-  const addPublicKey = async () => {
-    if (!newPubKey.trim()) return;
-    
-    // Validate the public key
-    const validation = bitcoinService.validatePublicKey(newPubKey.trim());
-    if (!validation.valid) {
+  const getDefaultDerivationPath = () => {
+    return hdWalletService.getDefaultDerivationPath(
+      getWalletScriptType(selectedWallet) || config.scriptType,
+      getWalletNetwork(selectedWallet) || config.network
+    );
+  };
+
+  // Fill in a key created or restored from recovery words. Single-key wallets use the account key itself.
+  const applyMnemonicKey = (extendedKey: ExtendedKeyInfo & { xprv: string }) => {
+    const networkName = getWalletNetwork(selectedWallet) || config.network;
+    const account = hdWalletService.parseExtendedPrivateKey(extendedKey.xprv, networkName);
+    const publicKey = account.publicKey.toString('hex');
+    const privateKey = selectedWallet?.is_hd ? extendedKey.xprv : account.toWIF();
+
+    if (selectedWallet?.is_hd) {
+      setNewPubKey(extendedKey.xpub);
+      setNewFingerprint(extendedKey.masterFingerprint);
+      setNewDerivationPath(extendedKey.derivationPath);
+    } else {
+      setNewPubKey(publicKey);
+    }
+    setGeneratedPrivateKeys(prev => ({ ...prev, [publicKey]: privateKey }));
+    // The app holds the key, so it can answer the challenge itself
+    setKeySignature(signerService.signMessage(keyChallenge, privateKey, networkName));
+  };
+
+  const getSignerType = (publicKey: string): SignerType => {
+    if (generatedPrivateKeys[publicKey]) return 'software';
+    return 'external';
+  };
+
+  // Build the wallet_keys columns for an extended public key, or report why it was rejected
+  const getExtendedKeyFields = (): Pick<WalletKey, 'public_key' | 'xpub' | 'master_fingerprint' | 'derivation_path'> | null => {
+    const derivationPath = newDerivationPath.trim() || getDefaultDerivationPath();
+
+    if (!hdWalletService.isValidFingerprint(newFingerprint)) {
       toast({
-        title: "Invalid Public Key",
-        description: "Please enter a valid Bitcoin public key in hex format",
+        title: "Invalid Fingerprint",
+        description: "The master key fingerprint must be 8 hex characters",
         variant: "destructive"
       });
-      return;
+      return null;
     }
 
+    if (!hdWalletService.isValidDerivationPath(derivationPath)) {
+      toast({
+        title: "Invalid Derivation Path",
+        description: "Please enter a derivation path such as m/48'/0'/0'/2'",
+        variant: "destructive"
+      });
+      return null;
+    }
+
+    try {
+      const node = hdWalletService.parseExtendedKey(newPubKey, getWalletNetwork(selectedWallet));
+      return {
+        public_key: node.publicKey.toString('hex'),
+        xpub: node.toBase58(),
+        master_fingerprint: newFingerprint.trim().toLowerCase(),
+        derivation_path: hdWalletService.normalizeDerivationPath(derivationPath)
+      };
+    } catch (error) {
+      toast({
+        title: "Invalid Extended Public Key",
+        description: error instanceof Error ? error.message : "Please enter a valid xpub",
+        variant: "destructive"
+      });
+      return null;
+    }
+  };
+
+  const addPublicKey = async () => {
+    if (!newPubKey.trim()) return;
+
     if (!selectedWallet) {
       toast({
         title: "No Wallet Selected",
@@ -124,21 +409,69 @@ export const MultisigWallet = () => {
       return;
     }
 
+    let keyFields: Pick<WalletKey, 'public_key' | 'xpub' | 'master_fingerprint' | 'derivation_path'> | null;
+    if (selectedWallet.is_hd) {
+      keyFields = getExtendedKeyFields();
+      if (!keyFields) return;
+    } else {
+      // Validate the public key
+      const validation = bitcoinService.validatePublicKey(newPubKey.trim());
+      if (!validation.valid) {
+        toast({
+          title: "Invalid Public Key",
+          description: "Please enter a valid Bitcoin public key in hex format",
+          variant: "destructive"
+        });
+        return;
+      }
+      // Witness scripts with uncompressed keys are non-standard, so coins sent to them could not be spent through relay
+      if (!validation.compressed && bitcoinService.isSegwitScriptType(bitcoinService.getMultisigOptions(selectedWallet).scriptType)) {
+        toast({
+          title: "Uncompressed Public Key",
+          description: "SegWit wallets require compressed public keys (66 hex characters starting with 02 or 03)",
+          variant: "destructive"
+        });
+        return;
+      }
+      keyFields = { public_key: newPubKey.trim(), xpub: null, master_fingerprint: null, derivation_path: null };
+    }
+
+    // Refuse keys the co-signer cannot sign with, which could otherwise lock the wallet's funds forever
+    let verificationMethod: KeyProofMethod;
+    try {
+      verificationMethod = keyProofService.verifyProof(keyChallenge, keySignature, keyFields.public_key);
+    } catch (error) {
+      toast({
+        title: "Key Not Verified",
+        description: error instanceof Error ? error.message : "The signature does not prove control of this key",
+        variant: "destructive"
+      });
+      return;
+    }
+
     try {
       setLoading(true);
       await walletService.addWalletKey({
         wallet_id: selectedWallet.id,
-        public_key: newPubKey.trim(),
+        ...keyFields,
+        signer_type: getSignerType(keyFields.public_key),
+        verified_at: new Date().toISOString(),
+        verification_method: verificationMethod,
         key_index: walletKeys.length,
         owner_name: `Key ${walletKeys.length + 1}`
       });
       
       setNewPubKey('');
+      setNewFingerprint('');
+      setNewDerivationPath('');
+      setKeySignature('');
+      // Each challenge proves a single key
+      setKeyChallenge(keyProofService.createChallenge(selectedWallet.id));
       await loadWalletKeys(selectedWallet.id);
       
       toast({
         title: "Public Key Added",
-        description: "Successfully added to wallet"
+        description: `Verified by ${keyProofService.getProofMethodLabel(verificationMethod).toLowerCase()} and added to wallet`
       });
     } catch (error) {
       toast({
@@ -167,6 +500,10 @@ export const MultisigWallet = () => {
         name: config.name,
         m: config.m,
         n: config.n,
+        script_type: config.scriptType,
+        network: config.network,
+        sorted_keys: config.sortedKeys,
+        is_hd: config.isHd,
         is_complete: false
       });
       
@@ -175,7 +512,7 @@ export const MultisigWallet = () => {
       
       toast({
         title: "Wallet Created",
-        description: `${config.m}-of-${config.n} wallet created successfully`
+        description: `${config.m}-of-${config.n} ${bitcoinService.getScriptTypeLabel(config.scriptType)} wallet created on ${bitcoinService.getNetworkLabel(config.network)}`
       });
     } catch (error) {
       toast({
@@ -193,10 +530,30 @@ export const MultisigWallet = () => {
 
     try {
       setLoading(true);
+
+      if (selectedWallet.is_hd) {
+        // Derive the first receive address at /0/0 from the co-signer xpubs
+        const { wallet } = await hdWalletService.issueNextAddress(selectedWallet, walletKeys, RECEIVE_CHAIN);
+        const completedWallet = await walletService.updateWallet(wallet.id, { is_complete: true });
+
+        await loadWallets();
+        setSelectedWallet(completedWallet);
+        setConfig(prev => ({ ...prev, address: completedWallet.address || undefined }));
+
+        toast({
+          title: "HD Multisig Wallet Ready",
+          description: `First receive address derived at /0/0`
+        });
+        return;
+      }
       
       // Generate multisig address
       const publicKeys = walletKeys.map(k => k.public_key);
-      const multisigResult = bitcoinService.createMultisigAddress(selectedWallet.m, publicKeys);
+      const multisigResult = bitcoinService.createMultisigAddress(selectedWallet.m, publicKeys, {
+        scriptType: getWalletScriptType(selectedWallet),
+        network: getWalletNetwork(selectedWallet),
+        sortedKeys: selectedWallet.sorted_keys
+      });
       
       if (!multisigResult) {
         toast({
@@ -232,6 +589,39 @@ export const MultisigWallet = () => {
     }
   };
 
+  const getWalletDescriptors = (): WalletDescriptors | null => {
+    if (!selectedWallet || walletKeys.length !== selectedWallet.n) return null;
+    try {
+      return descriptorService.exportWalletDescriptors(selectedWallet, walletKeys);
+    } catch (error) {
+      console.error('Error exporting descriptor:', error);
+      return null;
+    }
+  };
+
+  // Coldcard/Sparrow setup file for registering the wallet on signing devices; HD wallets with sorted keys only
+  const getWalletConfig = (): string | null => {
+    if (!selectedWallet || !selectedWallet.is_hd || !selectedWallet.sorted_keys || walletKeys.length !== selectedWallet.n) return null;
+    try {
+      return walletConfigService.exportWalletConfig(selectedWallet, walletKeys);
+    } catch (error) {
+      console.error('Error exporting wallet config:', error);
+      return null;
+    }
+  };
+
+  const downloadWalletConfig = (config: string) => {
+    if (!selectedWallet) return;
+
+    const blob = new Blob([config], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${selectedWallet.name.replace(/[^a-zA-Z0-9_-]+/g, '-')}-multisig.txt`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
   const copyToClipboard = (text: string) => {
     navigator.clipboard.writeText(text);
     toast({
@@ -272,6 +662,64 @@ export const MultisigWallet = () => {
     }
   };
 
+  const updateRecipient = (index: number, updates: Partial<RecipientForm>) => {
+    setRecipients(current => current.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  };
+
+  // Fill the whole recipient from a pasted BIP21 payment URI
+  const updateRecipientAddress = (index: number, value: string) => {
+    if (selectedWallet && paymentUriService.isPaymentUri(value)) {
+      try {
+        const request = paymentUriService.parsePaymentUri(value, getWalletNetwork(selectedWallet));
+        updateRecipient(index, {
+          address: request.address,
+          ...(request.amountSatoshis ? { amountBtc: bitcoinService.satoshisToBtc(request.amountSatoshis) } : {}),
+          ...(request.label || request.message ? { label: request.label || request.message } : {})
+        });
+        return;
+      } catch (error) {
+        // Keep the text so the field shows what is wrong with it
+      }
+    }
+    updateRecipient(index, { address: value });
+  };
+
+  const addRecipient = () => {
+    setRecipients(current => [...current, { ...EMPTY_RECIPIENT }]);
+  };
+
+  const removeRecipient = (index: number) => {
+    setRecipients(current => current.filter((_, i) => i !== index));
+  };
+
+  const importPayouts = (rows: PayoutRow[]) => {
+    setRecipients(rows.map(row => ({
+      address: row.address,
+      amountBtc: bitcoinService.satoshisToBtc(row.amountSatoshis || 0),
+      label: row.label
+    })));
+    toast({
+      title: "Payouts Imported",
+      description: `${rows.length} recipient${rows.length === 1 ? '' : 's'} added to a single batch transaction`
+    });
+  };
+
+  const estimateFeeRate = async () => {
+    if (!selectedWallet) return;
+
+    try {
+      const backend = await chainBackendService.getBackend(getWalletNetwork(selectedWallet));
+      const estimate = await backend.estimateFee(FEE_ESTIMATE_TARGET_BLOCKS);
+      setFeeRate(String(Math.round(estimate * 10) / 10));
+    } catch (error) {
+      toast({
+        title: "Fee Estimate Failed",
+        description: error instanceof Error ? error.message : "Failed to get a fee estimate",
+        variant: "destructive"
+      });
+    }
+  };
+
   const createTransaction = async () => {
     if (!selectedWallet || !selectedWallet.address) {
       toast({
@@ -282,13 +730,85 @@ export const MultisigWallet = () => {
       return;
     }
 
-    const toAddress = (document.getElementById('recipient') as HTMLInputElement)?.value;
-    const amountBtc = (document.getElementById('amount') as HTMLInputElement)?.value;
-
-    if (!toAddress || !amountBtc) {
+    if (recipients.some(r => !r.address.trim() || !r.amountBtc)) {
       toast({
         title: "Missing Information",
-        description: "Please enter recipient address and amount",
+        description: "Please enter an address and amount for every recipient",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const walletNetwork = getWalletNetwork(selectedWallet);
+    const addressChecks = recipients.map(r => checkRecipientAddress(r.address));
+    const invalidIndex = addressChecks.findIndex(check => !check?.parsed);
+    if (invalidIndex !== -1) {
+      toast({
+        title: "Invalid Recipient Address",
+        description: `Recipient ${invalidIndex + 1}: ${addressChecks[invalidIndex]?.error}`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const dustIndex = recipients.findIndex(r => !(bitcoinService.btcToSatoshis(r.amountBtc) >= DUST_THRESHOLD));
+    if (dustIndex !== -1) {
+      toast({
+        title: "Amount Too Small",
+        description: `Recipient ${dustIndex + 1}: each payment must be at least ${DUST_THRESHOLD} sats`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    // Record coins paid by any pasted funding transactions once the backend confirms they are unspent, then select from the wallet's unspent, unreserved utxos
+    let utxos: Array<PsbtInput & { utxoId: string; confirmationHeight: number | null }>;
+    try {
+      const walletAddresses = selectedWallet.is_hd ? await walletService.getWalletAddresses(selectedWallet.id) : [];
+      const pastedOutputs = fundingTxHex
+        .split(/\s+/)
+        .filter(hex => hex.trim())
+        .flatMap(hex => psbtService.resolveWalletInputs(selectedWallet, walletAddresses, hex));
+      const fundingOutputs = pastedOutputs.length > 0
+        ? await chainBackendService.checkUnspentOutputs(await chainBackendService.getBackend(walletNetwork), pastedOutputs)
+        : [];
+
+      await walletService.saveUtxos(fundingOutputs.map(output => ({
+        wallet_id: selectedWallet.id,
+        address: output.address,
+        txid: output.txid,
+        vout: output.vout,
+        value_satoshis: output.value,
+        script_hex: output.scriptHex,
+        confirmation_height: output.height
+      })));
+
+      // Legacy P2SH inputs need the full funding transaction: use pasted ones here, fetch the rest from the backend below
+      const previousTxs = new Map(fundingOutputs.map(output => [output.txid, output.previousTxHex]));
+      const spendable = await walletService.getSpendableUtxos(selectedWallet.id);
+      utxos = spendable.map(utxo => ({
+        ...psbtService.getUtxoInput(selectedWallet, utxo, walletAddresses, previousTxs.get(utxo.txid)),
+        utxoId: utxo.id,
+        confirmationHeight: utxo.confirmation_height
+      }));
+      await loadUtxos(selectedWallet.id);
+    } catch (error) {
+      toast({
+        title: "Invalid Funding Transaction",
+        description: error instanceof Error ? error.message : "Failed to read the funding transaction",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const outputs = recipients.map((r, i) => ({ address: addressChecks[i]!.parsed!.address, value: bitcoinService.btcToSatoshis(r.amountBtc) }));
+    let selection;
+    try {
+      selection = selectWalletCoins(selectedWallet, utxos);
+    } catch (error) {
+      toast({
+        title: "Coin Selection Failed",
+        description: error instanceof Error ? error.message : "Could not fund this transaction",
         variant: "destructive"
       });
       return;
@@ -296,25 +816,69 @@ export const MultisigWallet = () => {
 
     try {
       setLoading(true);
-      const amountSatoshis = bitcoinService.btcToSatoshis(amountBtc);
-      const feeSatoshis = bitcoinService.estimateFee(1, 2); // Simplified fee estimation
 
-      await walletService.createTransaction({
+      // Legacy P2SH inputs sign over the full funding transaction; fetch any that were not pasted
+      if (getWalletScriptType(selectedWallet) === 'p2sh' && selection.inputs.some(input => !input.previousTxHex)) {
+        const backend = await chainBackendService.getBackend(walletNetwork);
+        for (const input of selection.inputs.filter(input => !input.previousTxHex)) {
+          const previousTx = await backend.getTransaction(input.txid);
+          if (!previousTx) {
+            throw new Error(`Funding transaction ${input.txid} was not found; paste its raw hex instead`);
+          }
+          input.previousTxHex = previousTx.hex;
+        }
+      }
+
+      // Coin selection leaves change too small to relay to the miner
+      let change = null;
+      if (selection.change > 0) {
+        const changeResult = await psbtService.getChangeOutput(selectedWallet, walletKeys, selection.change);
+        change = changeResult.change;
+        setSelectedWallet(changeResult.wallet);
+      }
+
+      const psbt = psbtService.buildPsbt({
+        wallet: selectedWallet,
+        walletKeys,
+        inputs: selection.inputs,
+        outputs,
+        change
+      });
+
+      const transaction = await walletService.createTransaction({
         wallet_id: selectedWallet.id,
-        to_address: toAddress,
-        amount_satoshis: amountSatoshis,
-        fee_satoshis: feeSatoshis,
+        // A batch is summarized by its first payee and its total
+        to_address: outputs[0].address,
+        amount_satoshis: outputs.reduce((total, output) => total + output.value, 0),
+        fee_satoshis: selection.fee,
+        raw_transaction: psbt.toBase64(),
         required_signatures: selectedWallet.m,
         signatures: [],
         is_complete: false,
         is_broadcast: false
       });
 
+      // Record each payee, then reserve the selected coins so other proposals cannot spend them
+      try {
+        await walletService.addTransactionOutputs(outputs.map((output, i) => ({
+          transaction_id: transaction.id,
+          output_index: i,
+          address: output.address,
+          amount_satoshis: output.value,
+          label: recipients[i].label.trim() || null
+        })));
+        await walletService.lockUtxos(selection.inputs.map(input => input.utxoId), transaction.id);
+      } catch (error) {
+        await walletService.cancelTransaction(transaction.id);
+        throw error;
+      }
+
       await loadTransactions(selectedWallet.id);
+      await loadUtxos(selectedWallet.id);
       
       // Clear form
-      (document.getElementById('recipient') as HTMLInputElement).value = '';
-      (document.getElementById('amount') as HTMLInputElement).value = '';
+      setRecipients([{ ...EMPTY_RECIPIENT }]);
+      setFundingTxHex('');
       
       toast({
         title: "Transaction Created",
@@ -323,7 +887,7 @@ export const MultisigWallet = () => {
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to create transaction",
+        description: error instanceof Error ? error.message : "Failed to create transaction",
         variant: "destructive"
       });
     } finally {
@@ -331,24 +895,23 @@ export const MultisigWallet = () => {
     }
   };
 
-  const signTransaction = async (transactionId: string) => {
+  const cancelTransaction = async (transactionId: string) => {
+    if (!selectedWallet) return;
+
     try {
       setLoading(true);
-      
-      // Generate a mock signature for demo purposes
-      const mockSignature = `sig_${Math.random().toString(36).substring(2, 8)}`;
-      
-      await walletService.addTransactionSignature(transactionId, mockSignature);
-      await loadTransactions(selectedWallet!.id);
-      
+      await walletService.cancelTransaction(transactionId);
+      await loadTransactions(selectedWallet.id);
+      await loadUtxos(selectedWallet.id);
+
       toast({
-        title: "Transaction Signed",
-        description: "Signature added to transaction"
+        title: "Transaction Cancelled",
+        description: "Its coins have been released"
       });
     } catch (error) {
       toast({
         title: "Error",
-        description: "Failed to sign transaction",
+        description: "Failed to cancel transaction",
         variant: "destructive"
       });
     } finally {
@@ -356,6 +919,46 @@ export const MultisigWallet = () => {
     }
   };
 
+  const broadcastTransaction = async (tx: Transaction) => {
+    if (!selectedWallet) return;
+
+    try {
+      setLoading(true);
+      const updated = await broadcastService.broadcastTransaction(selectedWallet, tx);
+      toast({
+        title: "Transaction Broadcast",
+        description: `Txid ${updated.transaction_hash}`
+      });
+    } catch (error) {
+      toast({
+        title: "Broadcast Failed",
+        description: error instanceof Error ? error.message : "Failed to broadcast transaction",
+        variant: "destructive"
+      });
+    } finally {
+      // A broadcast can be recorded even when it reports an error
+      await loadTransactions(selectedWallet.id);
+      await loadUtxos(selectedWallet.id);
+      setLoading(false);
+    }
+  };
+
+  // Signatures are counted from the PSBT's partial signatures
+  const getSignatureCount = (tx: Transaction): number => {
+    if (!selectedWallet || !tx.raw_transaction) return 0;
+    try {
+      return psbtService.getSignatureCount(psbtService.fromBase64(tx.raw_transaction, selectedWallet));
+    } catch (error) {
+      return 0;
+    }
+  };
+
+  const walletDescriptors = getWalletDescriptors();
+  const walletConfig = getWalletConfig();
+  const spendableUtxos = utxos.filter(utxo => !utxo.spent_by_txid && !utxo.locked_by);
+  const reservedUtxos = utxos.filter(utxo => !utxo.spent_by_txid && utxo.locked_by);
+  const spendableSatoshis = spendableUtxos.reduce((total, utxo) => total + utxo.value_satoshis, 0);
+
   return (
     <div className="min-h-screen bg-gradient-dark p-6">
       <div className="max-w-6xl mx-auto space-y-6">
@@ -372,6 +975,14 @@ export const MultisigWallet = () => {
                 </h1>
                 <p className="text-muted-foreground">Welcome, {user?.email}</p>
               </div>
+              {selectedWallet && (
+                <Badge
+                  variant={selectedWallet.network === 'mainnet' ? "outline" : "destructive"}
+                  className="uppercase tracking-wide"
+                >
+                  {bitcoinService.getNetworkLabel(selectedWallet.network)}
+                </Badge>
+              )}
             </div>
             <Button variant="outline" onClick={signOut}>
               <LogOut className="h-4 w-4 mr-2" />
@@ -384,7 +995,7 @@ export const MultisigWallet = () => {
         </div>
 
         <Tabs defaultValue="setup" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3 bg-card">
+          <TabsList className="grid w-full grid-cols-4 bg-card">
             <TabsTrigger value="setup" className="flex items-center gap-2">
               <Shield className="h-4 w-4" />
               Setup
@@ -397,6 +1008,10 @@ export const MultisigWallet = () => {
               <Send className="h-4 w-4" />
               Transactions
             </TabsTrigger>
+            <TabsTrigger value="settings" className="flex items-center gap-2">
+              <Settings className="h-4 w-4" />
+              Settings
+            </TabsTrigger>
           </TabsList>
 
           {/* Setup Tab */}
@@ -453,6 +1068,80 @@ export const MultisigWallet = () => {
                         />
                       </div>
                     </div>
+                    <div>
+                      <Label htmlFor="script-type">Address Type</Label>
+                      <Select
+                        value={config.scriptType}
+                        onValueChange={(value) => setConfig(prev => ({ ...prev, scriptType: value as ScriptType }))}
+                        disabled={!!selectedWallet}
+                      >
+                        <SelectTrigger id="script-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {SCRIPT_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {SCRIPT_TYPES.find(type => type.value === config.scriptType)?.description}
+                      </p>
+                    </div>
+                    <div>
+                      <Label htmlFor="network">Network</Label>
+                      <Select
+                        value={config.network}
+                        onValueChange={(value) => setConfig(prev => ({ ...prev, network: value as NetworkName }))}
+                        disabled={!!selectedWallet}
+                      >
+                        <SelectTrigger id="network">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {NETWORKS.map((network) => (
+                            <SelectItem key={network.value} value={network.value}>
+                              {network.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {config.network !== 'mainnet' && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Test network coins have no value. Use this wallet for practice only.
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="sorted-keys">Sort Keys (BIP67)</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Produces the same address regardless of the order keys are added. Turn off only to recreate a legacy unsorted wallet.
+                        </p>
+                      </div>
+                      <Switch
+                        id="sorted-keys"
+                        checked={config.sortedKeys}
+                        onCheckedChange={(checked) => setConfig(prev => ({ ...prev, sortedKeys: checked }))}
+                        disabled={!!selectedWallet}
+                      />
+                    </div>
+                    <div className="flex items-center justify-between gap-4">
+                      <div>
+                        <Label htmlFor="hd-wallet">HD Wallet (Extended Public Keys)</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Co-signers contribute xpubs so a fresh address can be derived for every deposit.
+                        </p>
+                      </div>
+                      <Switch
+                        id="hd-wallet"
+                        checked={config.isHd}
+                        onCheckedChange={(checked) => setConfig(prev => ({ ...prev, isHd: checked }))}
+                        disabled={!!selectedWallet}
+                      />
+                    </div>
                   </div>
                   <div className="p-4 bg-muted rounded-lg">
                     <p className="text-sm text-muted-foreground">
@@ -480,28 +1169,76 @@ export const MultisigWallet = () => {
                     Public Keys ({walletKeys.length}/{selectedWallet?.n || config.n})
                   </CardTitle>
                   <CardDescription>
-                    Add public keys for all signers
+                    {selectedWallet?.is_hd ? "Add extended public keys for all signers" : "Add public keys for all signers"}
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div className="space-y-2">
-                    <Label htmlFor="pubkey">Public Key</Label>
+                    <Label htmlFor="pubkey">{selectedWallet?.is_hd ? "Extended Public Key" : "Public Key"}</Label>
                     <div className="flex gap-2">
                       <Input
                         id="pubkey"
-                        placeholder="Enter public key (hex format)"
+                        placeholder={selectedWallet?.is_hd ? "Enter xpub, tpub or SLIP-132 key" : "Enter public key (hex format)"}
                         value={newPubKey}
                         onChange={(e) => setNewPubKey(e.target.value)}
                         className="font-mono text-sm"
                       />
-                      <Button variant="outline" onClick={generateRandomKey} size="sm">
-                        Generate
-                      </Button>
+                      <MnemonicKeyDialog
+                        scriptType={getWalletScriptType(selectedWallet) || config.scriptType}
+                        network={getWalletNetwork(selectedWallet) || config.network}
+                        onKey={applyMnemonicKey}
+                      />
                     </div>
                   </div>
+                  {selectedWallet?.is_hd && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="fingerprint">Master Fingerprint</Label>
+                        <Input
+                          id="fingerprint"
+                          placeholder="e.g. 73c5da0a"
+                          value={newFingerprint}
+                          onChange={(e) => setNewFingerprint(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="derivation-path">Derivation Path</Label>
+                        <Input
+                          id="derivation-path"
+                          placeholder={getDefaultDerivationPath()}
+                          value={newDerivationPath}
+                          onChange={(e) => setNewDerivationPath(e.target.value)}
+                          className="font-mono text-sm"
+                        />
+                      </div>
+                    </div>
+                  )}
+                  {selectedWallet && (
+                    <div className="space-y-2">
+                      <Label htmlFor="key-signature">Proof of Possession</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Sign this message with the key being added{selectedWallet.is_hd ? " (the account key at its derivation path)" : ""}, using sign message or BIP322, and paste the signature
+                      </p>
+                      <div className="flex gap-2">
+                        <Input value={keyChallenge} readOnly className="font-mono text-xs" />
+                        <Button variant="outline" size="sm" onClick={() => copyToClipboard(keyChallenge)}>
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <Textarea
+                        id="key-signature"
+                        placeholder="Base64 signature"
+                        value={keySignature}
+                        onChange={(e) => setKeySignature(e.target.value)}
+                        className="font-mono text-xs"
+                        rows={2}
+                      />
+                    </div>
+                  )}
                   <Button 
                     onClick={addPublicKey} 
-                    disabled={!newPubKey.trim() || !selectedWallet || walletKeys.length >= (selectedWallet?.n || config.n) || loading}
+                    disabled={!newPubKey.trim() || !keySignature.trim() || !selectedWallet || walletKeys.length >= (selectedWallet?.n || config.n) || loading}
                     className="w-full"
                   >
                     {loading ? "Adding..." : "Add Public Key"}
@@ -523,10 +1260,13 @@ export const MultisigWallet = () => {
                         {walletKeys.map((walletKey, index) => (
                           <div key={walletKey.id} className="p-2 bg-muted rounded space-y-1">
                             <div className="font-mono text-xs break-all">
-                              {walletKey.public_key.substring(0, 20)}...{walletKey.public_key.substring(walletKey.public_key.length - 20)}
+                              {(walletKey.xpub || walletKey.public_key).substring(0, 20)}...{(walletKey.xpub || walletKey.public_key).substring((walletKey.xpub || walletKey.public_key).length - 20)}
                             </div>
                             <div className="text-xs text-muted-foreground">
                               {walletKey.owner_name || `Key ${index + 1}`}
+                              {walletKey.xpub && ` · [${walletKey.master_fingerprint}/${walletKey.derivation_path?.replace(/^m\//, '')}]`}
+                              {` · ${signerService.getSignerLabel(walletKey.signer_type)} signer`}
+                              {` · ${keyProofService.getVerificationLabel(walletKey.verification_method)}`}
                             </div>
                           </div>
                         ))}
@@ -548,6 +1288,13 @@ export const MultisigWallet = () => {
               </Card>
             </div>
 
+            <DescriptorImport
+              onImported={(wallet) => {
+                loadWallets();
+                setSelectedWallet(wallet);
+              }}
+            />
+
             {selectedWallet?.address && (
               <Card className="shadow-card border-primary/20">
                 <CardHeader>
@@ -571,8 +1318,9 @@ export const MultisigWallet = () => {
                       </div>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      Your {selectedWallet.m}-of-{selectedWallet.n} multisig address is ready to receive Bitcoin. 
+                      Your {selectedWallet.m}-of-{selectedWallet.n} {bitcoinService.getScriptTypeLabel(selectedWallet.script_type)} multisig address is ready to receive Bitcoin. 
                       Share this address safely to receive funds.
+                      {selectedWallet.is_hd && " Use the Address Index in the Manage tab to get a fresh address for each deposit."}
                     </p>
                   </div>
                 </CardContent>
@@ -607,12 +1355,17 @@ export const MultisigWallet = () => {
                             <div>
                               <h4 className="font-medium">{wallet.name}</h4>
                               <p className="text-sm text-muted-foreground">
-                                {wallet.m}-of-{wallet.n} multisig
+                                {wallet.m}-of-{wallet.n} multisig · {wallet.script_type.toUpperCase()} · {wallet.sorted_keys ? 'BIP67 sorted' : 'unsorted'}
                               </p>
                             </div>
-                            <Badge variant={wallet.is_complete ? "default" : "secondary"}>
-                              {wallet.is_complete ? "Complete" : "Setup"}
-                            </Badge>
+                            <div className="flex flex-col items-end gap-1">
+                              <Badge variant={wallet.is_complete ? "default" : "secondary"}>
+                                {wallet.is_complete ? "Complete" : "Setup"}
+                              </Badge>
+                              <Badge variant={wallet.network === 'mainnet' ? "outline" : "destructive"}>
+                                {bitcoinService.getNetworkLabel(wallet.network)}
+                              </Badge>
+                            </div>
                           </div>
                         </div>
                       ))}
@@ -663,6 +1416,23 @@ export const MultisigWallet = () => {
                           </div>
                         </div>
                         
+                        <div className="grid grid-cols-2 gap-4">
+                          <div>
+                            <Label>Address Type</Label>
+                            <div className="p-3 bg-muted rounded-lg">
+                              <Badge variant="outline">{bitcoinService.getScriptTypeLabel(selectedWallet.script_type)}</Badge>
+                            </div>
+                          </div>
+                          <div>
+                            <Label>Key Ordering</Label>
+                            <div className="p-3 bg-muted rounded-lg">
+                              <Badge variant={selectedWallet.sorted_keys ? "outline" : "secondary"}>
+                                {selectedWallet.sorted_keys ? "Sorted (BIP67)" : "Insertion Order (Legacy)"}
+                              </Badge>
+                            </div>
+                          </div>
+                        </div>
+
                         {selectedWallet.address && (
                           <div>
                             <Label>Multisig Address</Label>
@@ -681,7 +1451,7 @@ export const MultisigWallet = () => {
 
                         {selectedWallet.script_hex && (
                           <div>
-                            <Label>Redemption Script</Label>
+                            <Label>{selectedWallet.script_type === 'p2sh' ? 'Redemption Script' : 'Witness Script'}</Label>
                             <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
                               <code className="flex-1 text-sm break-all font-mono">{selectedWallet.script_hex}</code>
                               <Button
@@ -695,6 +1465,51 @@ export const MultisigWallet = () => {
                           </div>
                         )}
                         
+                        {walletDescriptors && (
+                          <div className="space-y-2">
+                            <Label>Output Descriptor{selectedWallet.is_hd ? "s" : ""}</Label>
+                            {Object.entries(walletDescriptors)
+                              .filter(([, descriptor]) => descriptor)
+                              .map(([chain, descriptor]) => (
+                                <div key={chain} className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                                  {selectedWallet.is_hd && (
+                                    <Badge variant="outline" className="capitalize">{chain}</Badge>
+                                  )}
+                                  <code className="flex-1 text-xs break-all font-mono">{descriptor}</code>
+                                  <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => copyToClipboard(descriptor!)}
+                                  >
+                                    <Copy className="h-4 w-4" />
+                                  </Button>
+                                </div>
+                              ))}
+                          </div>
+                        )}
+
+                        {walletConfig && (
+                          <div>
+                            <Label>Signing Device Setup</Label>
+                            <div className="flex items-center gap-2 p-3 bg-muted rounded-lg">
+                              <span className="flex-1 text-sm text-muted-foreground">
+                                Register this policy on Coldcard, Passport, Keystone or Sparrow before co-signing
+                              </span>
+                              <Button variant="outline" size="sm" onClick={() => downloadWalletConfig(walletConfig)}>
+                                <Download className="h-4 w-4 mr-2" />
+                                Config File
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => copyToClipboard(walletConfig)}
+                              >
+                                <Copy className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          </div>
+                        )}
+
                         <div>
                           <Label>Status</Label>
                           <div className="p-3 bg-muted rounded-lg">
@@ -726,19 +1541,36 @@ export const MultisigWallet = () => {
                                 </div>
                                 
                                 <div>
-                                  <Label className="text-xs">Public Key</Label>
+                                  <Label className="text-xs">{walletKey.xpub ? "Extended Public Key" : "Public Key"}</Label>
                                   <div className="flex items-center gap-2 p-2 bg-muted rounded mt-1">
-                                    <code className="flex-1 text-xs break-all font-mono">{walletKey.public_key}</code>
+                                    <code className="flex-1 text-xs break-all font-mono">{walletKey.xpub || walletKey.public_key}</code>
                                     <Button
                                       variant="ghost"
                                       size="sm"
-                                      onClick={() => copyToClipboard(walletKey.public_key)}
+                                      onClick={() => copyToClipboard(walletKey.xpub || walletKey.public_key)}
                                     >
                                       <Copy className="h-3 w-3" />
                                     </Button>
                                   </div>
                                 </div>
 
+                                {walletKey.xpub && (
+                                  <div className="grid grid-cols-2 gap-4">
+                                    <div>
+                                      <Label className="text-xs">Master Fingerprint</Label>
+                                      <div className="p-2 bg-muted rounded mt-1">
+                                        <code className="text-xs font-mono">{walletKey.master_fingerprint}</code>
+                                      </div>
+                                    </div>
+                                    <div>
+                                      <Label className="text-xs">Derivation Path</Label>
+                                      <div className="p-2 bg-muted rounded mt-1">
+                                        <code className="text-xs font-mono">{walletKey.derivation_path}</code>
+                                      </div>
+                                    </div>
+                                  </div>
+                                )}
+
                                 {walletKey.encrypted_private_key && (
                                   <div>
                                     <Label className="text-xs">Encrypted Private Key</Label>
@@ -763,8 +1595,30 @@ export const MultisigWallet = () => {
                       </Card>
                     )}
 
+                    {/* Payment request QR code for the current address */}
+                    {selectedWallet.address && (
+                      <ReceivePayment address={selectedWallet.address} />
+                    )}
+
+                    {/* Address Index for HD wallets */}
+                    {selectedWallet.is_hd && (
+                      <AddressIndex
+                        selectedWallet={selectedWallet}
+                        walletKeys={walletKeys}
+                        onWalletUpdated={(wallet) => {
+                          setSelectedWallet(wallet);
+                          loadWallets();
+                        }}
+                      />
+                    )}
+
                     {/* Private Key Backup Section */}
-                    <PrivateKeyBackup selectedWallet={selectedWallet} walletKeys={walletKeys} />
+                    <PrivateKeyBackup
+                      selectedWallet={selectedWallet}
+                      walletKeys={walletKeys}
+                      generatedPrivateKeys={generatedPrivateKeys}
+                      onKeysUpdated={() => loadWalletKeys(selectedWallet.id)}
+                    />
                   </>
                 ) : (
                   <Card className="shadow-card">
@@ -787,33 +1641,206 @@ export const MultisigWallet = () => {
               <>
                 <Card className="shadow-card">
                   <CardHeader>
-                    <CardTitle className="flex items-center gap-2">
-                      <Send className="h-5 w-5 text-primary" />
-                      Create Transaction
+                    <CardTitle className="flex items-center justify-between">
+                      <span className="flex items-center gap-2">
+                        <Send className="h-5 w-5 text-primary" />
+                        Create Transaction
+                      </span>
+                      <span className="flex gap-2">
+                        <CpfpDialog
+                          wallet={selectedWallet}
+                          walletKeys={walletKeys}
+                          utxos={utxos}
+                          onCreated={(wallet) => {
+                            setSelectedWallet(wallet);
+                            loadTransactions(wallet.id);
+                            loadUtxos(wallet.id);
+                          }}
+                        />
+                        <Button variant="outline" size="sm" onClick={syncCoins} disabled={loading}>
+                          <RefreshCw className="h-4 w-4 mr-2" />
+                          Sync Coins
+                        </Button>
+                      </span>
                     </CardTitle>
-                    <CardDescription>Send Bitcoin from your multisig wallet</CardDescription>
+                    <CardDescription>
+                      Send Bitcoin from your multisig wallet · Spendable: {bitcoinService.satoshisToBtc(spendableSatoshis)} BTC
+                      in {spendableUtxos.length} coin{spendableUtxos.length === 1 ? '' : 's'}
+                      {reservedUtxos.length > 0 && ` (${reservedUtxos.length} reserved by pending transactions)`}
+                    </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <Label>Recipients</Label>
+                        <div className="flex gap-2">
+                          <PayoutCsvImport
+                            network={getWalletNetwork(selectedWallet)}
+                            spendableSatoshis={spendableSatoshis}
+                            onImport={importPayouts}
+                          />
+                          <Button variant="outline" size="sm" onClick={addRecipient}>
+                            <Plus className="h-4 w-4 mr-2" />
+                            Add Recipient
+                          </Button>
+                        </div>
+                      </div>
+                      {recipients.map((r, i) => {
+                        const addressCheck = checkRecipientAddress(r.address);
+                        return (
+                          <div key={i} className="space-y-1">
+                            <div className="grid md:grid-cols-12 gap-2 items-end">
+                              <div className="md:col-span-5">
+                                <Label htmlFor={`recipient-${i}`} className="text-xs">Address</Label>
+                                <Input
+                                  id={`recipient-${i}`}
+                                  placeholder={`${bitcoinService.getNetworkLabel(selectedWallet.network)} address or bitcoin: URI`}
+                                  value={r.address}
+                                  onChange={(e) => updateRecipientAddress(i, e.target.value)}
+                                />
+                              </div>
+                              <div className="md:col-span-3">
+                                <Label htmlFor={`amount-${i}`} className="text-xs">Amount (BTC)</Label>
+                                <Input
+                                  id={`amount-${i}`}
+                                  type="number"
+                                  step="0.00000001"
+                                  placeholder="0.00000000"
+                                  value={r.amountBtc}
+                                  onChange={(e) => updateRecipient(i, { amountBtc: e.target.value })}
+                                />
+                              </div>
+                              <div className="md:col-span-3">
+                                <Label htmlFor={`label-${i}`} className="text-xs">Label</Label>
+                                <Input
+                                  id={`label-${i}`}
+                                  placeholder="Optional"
+                                  value={r.label}
+                                  onChange={(e) => updateRecipient(i, { label: e.target.value })}
+                                />
+                              </div>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => removeRecipient(i)}
+                                disabled={recipients.length === 1}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                            {addressCheck?.error && (
+                              <p className="text-xs text-destructive">{addressCheck.error}</p>
+                            )}
+                            {addressCheck?.parsed && (
+                              <div className="flex items-center gap-2 text-xs">
+                                <Badge variant="outline">{bitcoinService.getOutputTypeLabel(addressCheck.parsed.type)}</Badge>
+                                {addressCheck.isOwn && (
+                                  <span className="flex items-center gap-1 text-yellow-700 dark:text-yellow-300">
+                                    <AlertCircle className="h-3 w-3" />
+                                    This address belongs to this wallet; the payment will come back to it
+                                  </span>
+                                )}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })}
+                    </div>
+                    <div>
+                      <Label htmlFor="funding-tx">Funding Transactions (raw hex, one per line, optional)</Label>
+                      <Textarea
+                        id="funding-tx"
+                        placeholder="Paste transactions that paid this wallet to add their coins"
+                        value={fundingTxHex}
+                        onChange={(e) => setFundingTxHex(e.target.value)}
+                        className="font-mono text-xs"
+                        rows={3}
+                      />
+                    </div>
                     <div className="grid md:grid-cols-2 gap-4">
                       <div>
-                        <Label htmlFor="recipient">Recipient Address</Label>
-                        <Input
-                          id="recipient"
-                          placeholder="Enter Bitcoin address"
-                           defaultValue=""
-                        />
+                        <Label htmlFor="coin-selection">Coin Selection</Label>
+                        <Select value={coinSelectionStrategy} onValueChange={(value) => setCoinSelectionStrategy(value as CoinSelectionStrategy)}>
+                          <SelectTrigger id="coin-selection">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {COIN_SELECTION_STRATEGIES.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {COIN_SELECTION_STRATEGIES.find(option => option.value === coinSelectionStrategy)?.description}
+                        </p>
+                        {coinSelectionStrategy === 'manual' && (
+                          <div className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+                            {utxos.filter(utxo => !utxo.spent_by_txid && !utxo.locked_by).length === 0 ? (
+                              <p className="text-xs text-muted-foreground">No spendable coins. Sync coins first.</p>
+                            ) : utxos.filter(utxo => !utxo.spent_by_txid && !utxo.locked_by).map((utxo) => (
+                              <div key={utxo.id} className="flex items-center gap-2">
+                                <Checkbox
+                                  id={`coin-${utxo.id}`}
+                                  checked={manualCoinIds.includes(utxo.id)}
+                                  onCheckedChange={(checked) => setManualCoinIds(current =>
+                                    checked ? [...current, utxo.id] : current.filter(id => id !== utxo.id)
+                                  )}
+                                />
+                                <Label htmlFor={`coin-${utxo.id}`} className="text-xs font-normal">
+                                  <span className="font-mono">{utxo.txid.substring(0, 12)}...:{utxo.vout}</span>
+                                  {` · ${bitcoinService.satoshisToBtc(utxo.value_satoshis)} BTC`}
+                                  {utxo.confirmation_height === null && ' · unconfirmed'}
+                                </Label>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                       <div>
-                        <Label htmlFor="amount">Amount (BTC)</Label>
-                        <Input
-                          id="amount"
-                          type="number"
-                          step="0.00000001"
-                          placeholder="0.00000000"
-                           defaultValue=""
-                        />
+                        <Label htmlFor="fee-rate">Fee Rate (sat/vB)</Label>
+                        <div className="flex gap-2">
+                          <Input
+                            id="fee-rate"
+                            type="number"
+                            min="1"
+                            step="0.1"
+                            value={feeRate}
+                            onChange={(e) => setFeeRate(e.target.value)}
+                          />
+                          <Button variant="outline" onClick={estimateFeeRate}>
+                            Estimate
+                          </Button>
+                        </div>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Estimate asks the network's backend for a rate confirming within {FEE_ESTIMATE_TARGET_BLOCKS} blocks
+                        </p>
                       </div>
                     </div>
+                    {feePreview && (
+                      <div className="p-3 bg-muted rounded-lg text-sm grid grid-cols-2 md:grid-cols-4 gap-2">
+                        <div>
+                          <div className="text-xs text-muted-foreground">Inputs</div>
+                          {feePreview.inputs.length}
+                        </div>
+                        <div>
+                          <div className="text-xs text-muted-foreground">Size</div>
+                          {feePreview.vsize} vB
+                        </div>
+                        <div>
+                          <div className="text-xs text-muted-foreground">Fee</div>
+                          {feePreview.fee} sats
+                        </div>
+                        <div>
+                          <div className="text-xs text-muted-foreground">Change</div>
+                          {feePreview.change > 0 ? `${bitcoinService.satoshisToBtc(feePreview.change)} BTC` : 'None'}
+                        </div>
+                      </div>
+                    )}
+                    {feePreviewError && (
+                      <p className="text-sm text-destructive">{feePreviewError}</p>
+                    )}
                     <Button 
                       variant="bitcoin" 
                       onClick={createTransaction}
@@ -829,17 +1856,34 @@ export const MultisigWallet = () => {
                   <Card className="shadow-card">
                     <CardHeader>
                       <CardTitle>Pending Transactions</CardTitle>
-                      <CardDescription>Transactions awaiting signatures</CardDescription>
+                      <CardDescription>Transactions awaiting signatures, broadcast or confirmation</CardDescription>
                     </CardHeader>
                     <CardContent>
                       <div className="space-y-4">
                         {transactions.map((tx) => {
-                          const signatures = tx.signatures as string[] || [];
+                          const signatureCount = getSignatureCount(tx);
                           return (
                             <div key={tx.id} className="p-4 border rounded-lg space-y-3">
                               <div className="flex items-center justify-between">
                                 <div className="space-y-1">
-                                  <div className="font-mono text-sm">To: {tx.to_address}</div>
+                                  {(transactionOutputs[tx.id]?.length || 0) > 1 ? (
+                                    <div className="space-y-1">
+                                      {transactionOutputs[tx.id].map((output) => (
+                                        <div key={output.id} className="text-sm flex gap-2">
+                                          <span className="font-mono truncate max-w-xs">{output.address}</span>
+                                          <span>{bitcoinService.satoshisToBtc(output.amount_satoshis)} BTC</span>
+                                          {output.label && <Badge variant="outline">{output.label}</Badge>}
+                                        </div>
+                                      ))}
+                                    </div>
+                                  ) : (
+                                    <div className="font-mono text-sm">
+                                      To: {tx.to_address}
+                                      {transactionOutputs[tx.id]?.[0]?.label && (
+                                        <Badge variant="outline" className="ml-2">{transactionOutputs[tx.id][0].label}</Badge>
+                                      )}
+                                    </div>
+                                  )}
                                   <div className="text-lg font-semibold">
                                     {bitcoinService.satoshisToBtc(tx.amount_satoshis)} BTC
                                   </div>
@@ -849,33 +1893,137 @@ export const MultisigWallet = () => {
                                 </div>
                                 <div className="text-right space-y-1">
                                   <Badge variant={tx.is_complete ? "default" : "secondary"}>
-                                    {tx.is_complete ? "Complete" : `${signatures.length}/${tx.required_signatures} Signatures`}
+                                    {tx.is_complete ? "Complete" : `${signatureCount}/${tx.required_signatures} Signatures`}
                                   </Badge>
                                   {tx.is_broadcast && (
                                     <Badge variant="outline" className="block">
                                       Broadcast
                                     </Badge>
                                   )}
+                                  {broadcastService.getStatusLabel(tx) && (
+                                    <Badge
+                                      variant={tx.broadcast_status === 'replaced' || tx.broadcast_status === 'dropped' ? "destructive" : "outline"}
+                                      className="block"
+                                    >
+                                      {broadcastService.getStatusLabel(tx)}
+                                    </Badge>
+                                  )}
+                                  {tx.block_height !== null && (
+                                    <div className="text-xs text-muted-foreground">
+                                      Block {tx.block_height}
+                                    </div>
+                                  )}
                                 </div>
                               </div>
                               
                               <Separator />
                               
+                              {tx.is_complete && tx.transaction_hash && tx.signed_transaction && (
+                                <div className="space-y-1">
+                                  <Label className="text-xs">Bitcoin Transaction ID</Label>
+                                  <div className="flex items-center gap-2">
+                                    <code className="flex-1 text-xs bg-muted p-2 rounded break-all font-mono">
+                                      {tx.transaction_hash}
+                                    </code>
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => copyToClipboard(tx.signed_transaction!)}
+                                    >
+                                      <Copy className="h-3 w-3 mr-2" />
+                                      Raw Hex
+                                    </Button>
+                                  </div>
+                                </div>
+                              )}
+
                               <div className="flex items-center justify-between">
                                 <div className="text-sm text-muted-foreground">
                                   Transaction ID: {tx.id.substring(0, 8)}...
+                                  {tx.replaces_transaction_id && (
+                                    <div className="text-xs">Replaces {tx.replaces_transaction_id.substring(0, 8)}...</div>
+                                  )}
+                                  {tx.parent_txid && (
+                                    <div className="text-xs">Accelerates parent {tx.parent_txid.substring(0, 12)}...</div>
+                                  )}
+                                </div>
+                                <div className="flex gap-2">
+                                  {!tx.is_broadcast && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={() => cancelTransaction(tx.id)}
+                                      disabled={loading}
+                                    >
+                                      Cancel
+                                    </Button>
+                                  )}
+                                  {feeBumpService.canBumpFee(tx, transactions) && (
+                                    <BumpFeeDialog
+                                      wallet={selectedWallet}
+                                      walletKeys={walletKeys}
+                                      transaction={tx}
+                                      onBumped={() => {
+                                        loadTransactions(selectedWallet.id);
+                                        loadUtxos(selectedWallet.id);
+                                      }}
+                                    />
+                                  )}
+                                  {tx.is_complete && !tx.is_broadcast && tx.broadcast_status !== 'replaced' && (
+                                    <Button
+                                      size="sm"
+                                      onClick={() => broadcastTransaction(tx)}
+                                      disabled={loading}
+                                    >
+                                      <Radio className="h-4 w-4 mr-2" />
+                                      {tx.broadcast_status === 'dropped' ? 'Rebroadcast' : 'Broadcast'}
+                                    </Button>
+                                  )}
+                                  {broadcastService.needsRefresh(tx) && (
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      onClick={refreshTransactionStatuses}
+                                    >
+                                      <RefreshCw className="h-3 w-3 mr-2" />
+                                      Refresh
+                                    </Button>
+                                  )}
+                                  {!tx.is_complete && tx.raw_transaction && tx.broadcast_status !== 'replaced' && (
+                                    <>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={() => copyToClipboard(tx.raw_transaction!)}
+                                      >
+                                        <Copy className="h-3 w-3 mr-2" />
+                                        PSBT
+                                      </Button>
+                                      <CombinePsbtDialog
+                                        wallet={selectedWallet}
+                                        walletKeys={walletKeys}
+                                        transaction={tx}
+                                        onCombined={() => loadTransactions(selectedWallet.id)}
+                                      />
+                                      <ExportPsbtDialog
+                                        wallet={selectedWallet}
+                                        transaction={tx}
+                                      />
+                                      <PsbtQrDialog
+                                        wallet={selectedWallet}
+                                        walletKeys={walletKeys}
+                                        transaction={tx}
+                                        onCombined={() => loadTransactions(selectedWallet.id)}
+                                      />
+                                      <SignTransactionDialog
+                                        wallet={selectedWallet}
+                                        walletKeys={walletKeys}
+                                        transaction={tx}
+                                        onSigned={() => loadTransactions(selectedWallet.id)}
+                                      />
+                                    </>
+                                  )}
                                 </div>
-                                {!tx.is_complete && (
-                                  <Button
-                                    variant="outline"
-                                    size="sm"
-                                    onClick={() => signTransaction(tx.id)}
-                                    disabled={loading}
-                                  >
-                                    {loading ? "Signing..." : "Sign Transaction"}
-                                    <ArrowRight className="h-4 w-4 ml-2" />
-                                  </Button>
-                                )}
                               </div>
                             </div>
                           );
@@ -900,6 +2048,11 @@ export const MultisigWallet = () => {
               </Card>
             )}
           </TabsContent>
+
+          {/* Settings Tab */}
+          <TabsContent value="settings" className="space-y-6">
+            <ChainBackendSettings />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
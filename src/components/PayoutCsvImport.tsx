@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertCircle, FileSpreadsheet } from "lucide-react";
+import { payoutCsvService, type AmountUnit, type PayoutImport, type PayoutRow } from "@/services/payoutCsvService";
+import { bitcoinService, type NetworkName } from "@/services/bitcoinService";
+
+interface PayoutCsvImportProps {
+  network: NetworkName;
+  spendableSatoshis: number;
+  onImport: (rows: PayoutRow[]) => void;
+}
+
+export const PayoutCsvImport: React.FC<PayoutCsvImportProps> = ({ network, spendableSatoshis, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [csvText, setCsvText] = useState('');
+  const [unit, setUnit] = useState<AmountUnit>('btc');
+  const [result, setResult] = useState<PayoutImport | null>(null);
+
+  const validate = (text: string, amountUnit: AmountUnit) => {
+    setResult(text.trim() ? payoutCsvService.parsePayoutCsv(text, network, spendableSatoshis, amountUnit) : null);
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsvText(text);
+    validate(text, unit);
+  };
+
+  const importRows = () => {
+    if (!result) return;
+    onImport(result.validRows);
+    setCsvText('');
+    setResult(null);
+    setOpen(false);
+  };
+
+  const invalidCount = result ? result.rows.length - result.validRows.length : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <FileSpreadsheet className="h-4 w-4 mr-2" />
+          Import CSV
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Payouts</DialogTitle>
+          <DialogDescription>
+            One payout per line: address, amount, label. Amounts may end in "BTC" or "sats" to override the default unit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="payout-file">CSV File</Label>
+              <Input
+                id="payout-file"
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => loadFile(e.target.files?.[0])}
+              />
+            </div>
+            <div>
+              <Label htmlFor="payout-unit">Amounts In</Label>
+              <Select value={unit} onValueChange={(value) => { setUnit(value as AmountUnit); validate(csvText, value as AmountUnit); }}>
+                <SelectTrigger id="payout-unit">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="btc">BTC</SelectItem>
+                  <SelectItem value="sats">Satoshis</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="payout-csv">Or paste CSV</Label>
+            <Textarea
+              id="payout-csv"
+              placeholder={"address,amount,label\nbc1q...,0.015,Supplier invoice 42"}
+              value={csvText}
+              onChange={(e) => { setCsvText(e.target.value); validate(e.target.value, unit); }}
+              className="font-mono text-xs"
+              rows={5}
+            />
+          </div>
+
+          {result && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-2 text-sm">
+                <Badge variant="default">{result.validRows.length} valid</Badge>
+                {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+                <span className="text-muted-foreground">
+                  Total {bitcoinService.satoshisToBtc(result.totalSatoshis)} BTC of {bitcoinService.satoshisToBtc(spendableSatoshis)} BTC spendable
+                </span>
+              </div>
+              {result.balanceError && (
+                <div className="flex items-center gap-2 text-sm text-destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  {result.balanceError}
+                </div>
+              )}
+              <div className="max-h-64 overflow-y-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Line</TableHead>
+                      <TableHead>Address</TableHead>
+                      <TableHead>Amount</TableHead>
+                      <TableHead>Label</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.rows.map((row) => (
+                      <TableRow key={row.line}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="font-mono text-xs break-all">{row.address}</TableCell>
+                        <TableCell>{row.amountSatoshis !== null ? `${bitcoinService.satoshisToBtc(row.amountSatoshis)} BTC` : '-'}</TableCell>
+                        <TableCell>{row.label}</TableCell>
+                        <TableCell className={row.errors.length > 0 ? "text-destructive text-xs" : "text-xs"}>
+                          {row.errors.length > 0 ? row.errors.join('; ') : 'OK'}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={importRows} disabled={!result || result.validRows.length === 0 || !!result.balanceError}>
+            Use {result?.validRows.length || 0} Valid Payouts
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
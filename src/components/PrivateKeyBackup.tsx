@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -9,15 +9,17 @@ import { Shield, Key, Lock, Unlock, AlertTriangle, Download, Eye, EyeOff, Upload
 import { useToast } from "@/hooks/use-toast";
 import { walletService, type Wallet, type WalletKey, type KeyBackup } from "@/services/walletService";
 import { cryptoService } from "@/services/cryptoService";
-import { bitcoinService } from "@/services/bitcoinService";
+import { psbtService } from "@/services/psbtService";
 import CryptoJS from 'crypto-js';
 
 interface PrivateKeyBackupProps {
   selectedWallet: Wallet | null;
   walletKeys: WalletKey[];
+  generatedPrivateKeys?: Record<string, string>;
+  onKeysUpdated?: () => void;
 }
 
-export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWallet, walletKeys }) => {
+export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWallet, walletKeys, generatedPrivateKeys = {}, onKeysUpdated }) => {
   const [password, setPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
   const [decryptPassword, setDecryptPassword] = useState('');
@@ -28,15 +30,12 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
   const [showDecryptedKeys, setShowDecryptedKeys] = useState<Record<string, boolean>>({});
   const [loading, setLoading] = useState(false);
   const [importFile, setImportFile] = useState<File | null>(null);
+  const [privateKeyInputs, setPrivateKeyInputs] = useState<Record<string, string>>({});
+  const [storePassword, setStorePassword] = useState('');
+  const [isStoringKeys, setIsStoringKeys] = useState(false);
   const { toast } = useToast();
 
-  useEffect(() => {
-    if (selectedWallet) {
-      loadKeyBackup();
-    }
-  }, [selectedWallet]);
-
-  const loadKeyBackup = async () => {
+  const loadKeyBackup = useCallback(async () => {
     if (!selectedWallet) return;
     
     try {
@@ -46,16 +45,65 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
       // Backup doesn't exist yet, that's fine
       setKeyBackup(null);
     }
-  };
+  }, [selectedWallet]);
 
-  const generatePrivateKeys = () => {
-    const keys: Record<string, string> = {};
-    walletKeys.forEach((walletKey) => {
-      // Generate a mock private key for demo purposes
-      const keyPair = bitcoinService.generateKeyPair();
-      keys[walletKey.id] = keyPair.privateKey;
+  useEffect(() => {
+    if (selectedWallet) {
+      loadKeyBackup();
+    }
+  }, [selectedWallet, loadKeyBackup]);
+
+  // Prefill private keys generated during setup for keys that are not stored yet
+  useEffect(() => {
+    setPrivateKeyInputs(prev => {
+      const next = { ...prev };
+      walletKeys.forEach((walletKey) => {
+        const generated = generatedPrivateKeys[walletKey.public_key];
+        if (generated && !walletKey.encrypted_private_key && !next[walletKey.id]) {
+          next[walletKey.id] = generated;
+        }
+      });
+      return next;
     });
-    return keys;
+  }, [walletKeys, generatedPrivateKeys]);
+
+  const unstoredKeys = walletKeys.filter(key => !key.encrypted_private_key);
+  const enteredKeys = unstoredKeys.filter(key => privateKeyInputs[key.id]?.trim());
+
+  // Check every entered private key belongs to its wallet key, reporting the first mismatch
+  const validateEnteredKeys = (): boolean => {
+    if (!selectedWallet) return false;
+    try {
+      enteredKeys.forEach(key => psbtService.checkPrivateKey(selectedWallet, key, privateKeyInputs[key.id]));
+      return true;
+    } catch (error) {
+      toast({
+        title: "Invalid Private Key",
+        description: error instanceof Error ? error.message : "Private key does not match its public key",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  // Encrypt entered private keys with the backup's shared salt, each under its own IV stored alongside it
+  const storeEnteredKeys = async (backupPassword: string, salt: string) => {
+    for (const walletKey of enteredKeys) {
+      const encryptedPrivateKey = cryptoService.encryptWithSalt(
+        privateKeyInputs[walletKey.id].trim(),
+        backupPassword,
+        salt
+      );
+
+      await walletService.updateWalletKeyWithPrivateKey(
+        walletKey.id,
+        encryptedPrivateKey.encryptedData,
+        encryptedPrivateKey.iv
+      );
+    }
+
+    setPrivateKeyInputs({});
+    onKeysUpdated?.();
   };
 
   const createBackup = async () => {
@@ -77,12 +125,11 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
       return;
     }
 
+    if (!validateEnteredKeys()) return;
+
     try {
       setIsCreatingBackup(true);
       
-      // Generate private keys for each wallet key
-      const privateKeys = generatePrivateKeys();
-      
       // Generate shared salt and IV for all keys in the wallet
       const dummyData = "test";
       const encryptionResult = cryptoService.encrypt(dummyData, password);
@@ -94,18 +141,7 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
         encryptionResult.iv
       );
       
-      // Encrypt and store each private key using consistent encryption method
-      for (const walletKey of walletKeys) {
-        const privateKey = privateKeys[walletKey.id];
-        
-        // Encrypt and store each private key using consistent encryption method
-        const encryptedPrivateKey = cryptoService.encrypt(privateKey, password);
-        
-        await walletService.updateWalletKeyWithPrivateKey(
-          walletKey.id,
-          encryptedPrivateKey.encryptedData
-        );
-      }
+      await storeEnteredKeys(password, backup.salt);
 
       setKeyBackup(backup);
       setPassword('');
@@ -127,6 +163,41 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
     }
   };
 
+  const addPrivateKeys = async () => {
+    if (!selectedWallet || !keyBackup || !storePassword || !validateEnteredKeys()) return;
+
+    try {
+      setIsStoringKeys(true);
+
+      // Keys already stored must decrypt with this password, otherwise the backup would mix passwords
+      const storedKey = walletKeys.find(key => key.encrypted_private_key);
+      if (storedKey?.encrypted_private_key) {
+        try {
+          const decrypted = cryptoService.decrypt(storedKey.encrypted_private_key, storePassword, keyBackup.salt, storedKey.private_key_iv || keyBackup.iv);
+          psbtService.checkPrivateKey(selectedWallet, storedKey, decrypted);
+        } catch (error) {
+          throw new Error("Password does not match the existing backup");
+        }
+      }
+
+      await storeEnteredKeys(storePassword, keyBackup.salt);
+      setStorePassword('');
+
+      toast({
+        title: "Private Keys Stored",
+        description: "Private keys have been encrypted and added to the backup"
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to store private keys",
+        variant: "destructive"
+      });
+    } finally {
+      setIsStoringKeys(false);
+    }
+  };
+
   const decryptBackup = async () => {
     if (!keyBackup || !decryptPassword) {
       toast({
@@ -147,12 +218,12 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
         if (walletKey.encrypted_private_key) {
           try {
             console.log(`Decrypting key ${walletKey.id}...`);
-            // Use the shared salt and IV from the backup, not individual encryption
+            // Use the backup's shared salt with the key's own IV, or the backup's IV for keys stored before per-key IVs
             const decryptedKey = cryptoService.decrypt(
               walletKey.encrypted_private_key,
               decryptPassword,
               keyBackup.salt,
-              keyBackup.iv
+              walletKey.private_key_iv || keyBackup.iv
             );
             decrypted[walletKey.id] = decryptedKey;
             console.log(`Successfully decrypted key ${walletKey.id}`);
@@ -229,7 +300,7 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
     }
 
     const encryptedBackupData = {
-      version: "1.0",
+      version: "1.1",
       walletId: selectedWallet.id,
       walletName: selectedWallet.name,
       walletConfig: {
@@ -246,6 +317,7 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
         index: key.key_index,
         publicKey: key.public_key,
         encryptedPrivateKey: key.encrypted_private_key || null,
+        privateKeyIv: key.private_key_iv || null,
         ownerName: key.owner_name,
         keyId: key.id
       }))
@@ -318,9 +390,11 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
           // Find the corresponding wallet key
           const walletKey = walletKeys.find(k => k.public_key === keyData.publicKey);
           if (walletKey) {
+            // Version 1.0 files encrypted every key under the shared IV
             await walletService.updateWalletKeyWithPrivateKey(
               walletKey.id,
-              keyData.encryptedPrivateKey
+              keyData.encryptedPrivateKey,
+              keyData.privateKeyIv || backupData.encryption.iv
             );
           }
         }
@@ -348,6 +422,26 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
     }
   };
 
+  const renderPrivateKeyInputs = () => (
+    <div className="space-y-3">
+      {unstoredKeys.map((walletKey) => (
+        <div key={walletKey.id}>
+          <Label htmlFor={`private-key-${walletKey.id}`}>
+            {walletKey.owner_name || `Key ${walletKey.key_index + 1}`} Private Key
+          </Label>
+          <Input
+            id={`private-key-${walletKey.id}`}
+            type="password"
+            placeholder={selectedWallet?.is_hd ? "Account xprv / tprv (optional)" : "Hex or WIF private key (optional)"}
+            value={privateKeyInputs[walletKey.id] || ''}
+            onChange={(e) => setPrivateKeyInputs(prev => ({ ...prev, [walletKey.id]: e.target.value }))}
+            className="font-mono"
+          />
+        </div>
+      ))}
+    </div>
+  );
+
   if (!selectedWallet) {
     return (
       <Card className="shadow-card">
@@ -387,6 +481,7 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
               </div>
               
               <div className="space-y-4">
+                {renderPrivateKeyInputs()}
                 <div>
                   <Label htmlFor="backup-password">Backup Password</Label>
                   <Input
@@ -410,7 +505,7 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
                 
                 <Button 
                   onClick={createBackup}
-                  disabled={!password || password !== confirmPassword || isCreatingBackup || walletKeys.length === 0}
+                  disabled={!password || password !== confirmPassword || isCreatingBackup || enteredKeys.length === 0}
                   className="w-full"
                 >
                   <Lock className="h-4 w-4 mr-2" />
@@ -432,6 +527,32 @@ export const PrivateKeyBackup: React.FC<PrivateKeyBackupProps> = ({ selectedWall
                 </p>
               </div>
 
+              {unstoredKeys.length > 0 && (
+                <div className="space-y-4">
+                  <h4 className="font-medium">Add Private Keys</h4>
+                  {renderPrivateKeyInputs()}
+                  <div>
+                    <Label htmlFor="store-password">Backup Password</Label>
+                    <Input
+                      id="store-password"
+                      type="password"
+                      placeholder="Enter your backup password"
+                      value={storePassword}
+                      onChange={(e) => setStorePassword(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={addPrivateKeys}
+                    disabled={!storePassword || isStoringKeys || enteredKeys.length === 0}
+                    className="w-full"
+                  >
+                    <Lock className="h-4 w-4 mr-2" />
+                    {isStoringKeys ? "Storing..." : "Encrypt & Store Keys"}
+                  </Button>
+                  <Separator />
+                </div>
+              )}
+
               <div className="space-y-4">
                 <div>
                   <Label htmlFor="decrypt-password">Enter Password to Decrypt</Label>
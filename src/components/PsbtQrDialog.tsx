@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { QRCodeSVG } from "qrcode.react";
+import jsQR from "jsqr";
+import { type UREncoder, type URDecoder } from "@ngraveio/bc-ur";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { AlertCircle, Camera, CameraOff, QrCode } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { walletService, type Wallet, type WalletKey, type Transaction } from "@/services/walletService";
+import { psbtService } from "@/services/psbtService";
+import { urService, type UrScanProgress } from "@/services/urService";
+
+// Time each animated frame is shown; signing devices read several frames per second
+const FRAME_INTERVAL = 250;
+
+interface PsbtQrDialogProps {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  transaction: Transaction;
+  onCombined: (transaction: Transaction) => void;
+}
+
+export const PsbtQrDialog: React.FC<PsbtQrDialogProps> = ({ wallet, walletKeys, transaction, onCombined }) => {
+  const [open, setOpen] = useState(false);
+  const [tab, setTab] = useState('show');
+  const [encoder, setEncoder] = useState<UREncoder | null>(null);
+  const [frame, setFrame] = useState('');
+  const [progress, setProgress] = useState<UrScanProgress | null>(null);
+  const [scanError, setScanError] = useState<string | null>(null);
+  const [pastedParts, setPastedParts] = useState('');
+  const [scanning, setScanning] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const lastPartRef = useRef('');
+  // The camera loop outlives renders, so the decoder it feeds lives in a ref
+  const decoderRef = useRef<URDecoder>(urService.createDecoder());
+  const { toast } = useToast();
+
+  // Build the fountain encoder for the unsigned PSBT when the dialog opens
+  useEffect(() => {
+    if (open && transaction.raw_transaction) {
+      setEncoder(urService.createPsbtEncoder(transaction.raw_transaction));
+    }
+  }, [open, transaction.raw_transaction]);
+
+  // Cycle the animated QR code through the encoder's frames
+  useEffect(() => {
+    if (!open || tab !== 'show' || !encoder) return;
+
+    // QR codes encode upper case letters more compactly, and UR readers accept either case
+    setFrame(encoder.nextPart().toUpperCase());
+    if (encoder.fragmentsLength === 1) return;
+
+    const interval = setInterval(() => setFrame(encoder.nextPart().toUpperCase()), FRAME_INTERVAL);
+    return () => clearInterval(interval);
+  }, [open, tab, encoder]);
+
+  // Feed frames to the decoder, returning true once the PSBT is complete
+  const receiveParts = useCallback((parts: string[]): boolean => {
+    for (const part of parts) {
+      try {
+        const result = urService.receivePart(decoderRef.current, part);
+        setProgress(result);
+        setScanError(null);
+        if (result.complete) {
+          setScanning(false);
+          return true;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unreadable frame';
+        setScanError(message);
+        // A corrupt reassembly cannot recover; start over with a fresh decoder
+        if (decoderRef.current.isError()) {
+          decoderRef.current = urService.createDecoder();
+          setProgress(null);
+          toast({
+            title: "Scan Failed",
+            description: message,
+            variant: "destructive"
+          });
+          return false;
+        }
+      }
+    }
+    return false;
+  }, [toast]);
+
+  // Read frames from the camera until the PSBT is complete
+  useEffect(() => {
+    if (!scanning) return;
+
+    let frameRequest = 0;
+    let cancelled = false;
+    const canvas = document.createElement('canvas');
+
+    const scanFrame = () => {
+      const video = videoRef.current;
+      if (cancelled || !video) return;
+
+      if (video.readyState === video.HAVE_ENOUGH_DATA) {
+        canvas.width = video.videoWidth;
+        canvas.height = video.videoHeight;
+        const context = canvas.getContext('2d');
+        if (context) {
+          context.drawImage(video, 0, 0, canvas.width, canvas.height);
+          const code = jsQR(context.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height);
+          // The same frame stays in view for many video frames; only decode it once
+          if (code && code.data !== lastPartRef.current) {
+            lastPartRef.current = code.data;
+            if (receiveParts([code.data])) return;
+          }
+        }
+      }
+      frameRequest = requestAnimationFrame(scanFrame);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          // Playback is aborted when the scan stops before the video starts; only report other failures
+          videoRef.current.play().catch((error) => {
+            if (!cancelled) {
+              setScanError(`Camera preview failed: ${error instanceof Error ? error.message : error}`);
+            }
+          });
+        }
+        frameRequest = requestAnimationFrame(scanFrame);
+      })
+      .catch((error) => {
+        setScanning(false);
+        setScanError(`Camera unavailable: ${error instanceof Error ? error.message : error}`);
+      });
+
+    return () => {
+      cancelled = true;
+      cancelAnimationFrame(frameRequest);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+      streamRef.current = null;
+    };
+  }, [scanning, receiveParts]);
+
+  const resetScan = () => {
+    decoderRef.current = urService.createDecoder();
+    setProgress(null);
+    setScanError(null);
+    lastPartRef.current = '';
+  };
+
+  const openChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) {
+      setScanning(false);
+      setPastedParts('');
+      resetScan();
+    }
+  };
+
+  const addPastedParts = () => {
+    receiveParts(pastedParts.split(/\s+/).filter(part => part.trim()));
+    setPastedParts('');
+  };
+
+  const uploadImages = async (files: FileList | null) => {
+    if (!files) return;
+
+    const canvas = document.createElement('canvas');
+    const context = canvas.getContext('2d');
+    for (const file of Array.from(files)) {
+      // Text exports list one UR frame per line
+      if (file.type.startsWith('text/') || file.name.endsWith('.txt')) {
+        if (receiveParts((await file.text()).split(/\s+/).filter(part => part.trim()))) return;
+        continue;
+      }
+
+      let image: ImageBitmap;
+      try {
+        image = await createImageBitmap(file);
+      } catch (error) {
+        setScanError(`${file.name} is not a readable image`);
+        continue;
+      }
+      canvas.width = image.width;
+      canvas.height = image.height;
+      context?.drawImage(image, 0, 0);
+      const code = context && jsQR(context.getImageData(0, 0, image.width, image.height).data, image.width, image.height);
+      if (!code) {
+        setScanError(`No QR code found in ${file.name}`);
+        continue;
+      }
+      if (receiveParts([code.data])) return;
+    }
+  };
+
+  const mergeScannedPsbt = async () => {
+    if (!transaction.raw_transaction) return;
+
+    try {
+      setLoading(true);
+
+      const signed = psbtService.fromBase64(urService.getDecodedPsbt(decoderRef.current), wallet);
+      const psbt = psbtService.combinePsbts(psbtService.fromBase64(transaction.raw_transaction, wallet), [signed]);
+      const updates = psbtService.getTransactionUpdate(psbt, wallet, walletKeys, transaction.required_signatures);
+      const updated = await walletService.updateTransaction(transaction.id, updates);
+
+      openChange(false);
+      onCombined(updated);
+
+      toast({
+        title: updated.is_complete ? "Transaction Finalized" : "Signatures Merged",
+        description: updated.is_complete
+          ? `Ready to broadcast: ${updated.transaction_hash}`
+          : `${psbtService.getSignatureCount(psbt)}/${transaction.required_signatures} signatures collected`
+      });
+    } catch (error) {
+      toast({
+        title: "Merge Failed",
+        description: error instanceof Error ? error.message : "Failed to merge the scanned PSBT",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={openChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <QrCode className="h-4 w-4 mr-2" />
+          QR Exchange
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Air-Gapped Signing</DialogTitle>
+          <DialogDescription>
+            Show the PSBT to an air-gapped signer as an animated BC-UR QR code, then scan its signed PSBT back
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={(value) => { setTab(value); if (value !== 'scan') setScanning(false); }}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="show">Show PSBT</TabsTrigger>
+            <TabsTrigger value="scan">Scan Signed</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="show" className="flex flex-col items-center gap-3">
+            {frame && (
+              <div className="p-3 bg-white rounded-lg">
+                <QRCodeSVG value={frame} size={280} level="L" />
+              </div>
+            )}
+            <p className="text-xs text-muted-foreground text-center">
+              {encoder && encoder.fragmentsLength > 1
+                ? `Animated ur:crypto-psbt in ${encoder.fragmentsLength} parts. Keep the signer pointed at the screen until it finishes.`
+                : 'Single-frame ur:crypto-psbt'}
+            </p>
+          </TabsContent>
+
+          <TabsContent value="scan" className="space-y-4">
+            {scanning && (
+              <video ref={videoRef} className="w-full rounded-lg bg-black" muted playsInline />
+            )}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setScanning(!scanning)} disabled={progress?.complete}>
+                {scanning ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+                {scanning ? "Stop Camera" : "Scan with Camera"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={resetScan} disabled={!progress && !scanError}>
+                Reset
+              </Button>
+            </div>
+            <div>
+              <Label htmlFor="ur-upload">Upload QR Images or UR Text</Label>
+              <Input
+                id="ur-upload"
+                type="file"
+                accept="image/*,.txt"
+                multiple
+                onChange={(e) => uploadImages(e.target.files)}
+                disabled={progress?.complete}
+              />
+            </div>
+            <div>
+              <Label htmlFor="ur-parts">Or paste UR frames</Label>
+              <div className="flex gap-2">
+                <Textarea
+                  id="ur-parts"
+                  placeholder="ur:crypto-psbt/..."
+                  value={pastedParts}
+                  onChange={(e) => setPastedParts(e.target.value)}
+                  className="font-mono text-xs"
+                  rows={3}
+                />
+                <Button variant="outline" size="sm" onClick={addPastedParts} disabled={!pastedParts.trim() || progress?.complete}>
+                  Add
+                </Button>
+              </div>
+            </div>
+
+            {progress && (
+              <div className="space-y-1">
+                <Progress value={progress.percent} />
+                <p className="text-xs text-muted-foreground">
+                  {progress.complete
+                    ? 'Signed PSBT received'
+                    : `${progress.receivedParts} of ${progress.expectedParts} parts received (about ${progress.percent}%)`}
+                </p>
+              </div>
+            )}
+            {scanError && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {scanError}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button onClick={mergeScannedPsbt} disabled={loading || !progress?.complete}>
+            {loading ? "Merging..." : "Merge Signed PSBT"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
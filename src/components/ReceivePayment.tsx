@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { QRCodeSVG } from "qrcode.react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, QrCode } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { paymentUriService } from "@/services/paymentUriService";
+import { bitcoinService } from "@/services/bitcoinService";
+
+interface ReceivePaymentProps {
+  address: string;
+}
+
+export const ReceivePayment: React.FC<ReceivePaymentProps> = ({ address }) => {
+  const [amountBtc, setAmountBtc] = useState('');
+  const [label, setLabel] = useState('');
+  const [message, setMessage] = useState('');
+  const { toast } = useToast();
+
+  const amountSatoshis = amountBtc ? bitcoinService.btcToSatoshis(amountBtc) : undefined;
+  const uri = paymentUriService.createPaymentUri({
+    address,
+    amountSatoshis: amountSatoshis && amountSatoshis > 0 ? amountSatoshis : undefined,
+    label: label.trim(),
+    message: message.trim()
+  });
+
+  const copyUri = () => {
+    navigator.clipboard.writeText(uri);
+    toast({
+      title: "Copied to clipboard",
+      description: "Payment request copied successfully"
+    });
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <QrCode className="h-5 w-5 text-primary" />
+          Receive
+        </CardTitle>
+        <CardDescription>
+          Share a BIP21 payment request for the current address
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="receive-amount">Amount (BTC, optional)</Label>
+              <Input
+                id="receive-amount"
+                type="number"
+                step="0.00000001"
+                min="0"
+                placeholder="0.00000000"
+                value={amountBtc}
+                onChange={(e) => setAmountBtc(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="receive-label">Label (optional)</Label>
+              <Input
+                id="receive-label"
+                placeholder="Who is paying"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+              />
+            </div>
+            <div>
+              <Label htmlFor="receive-message">Message (optional)</Label>
+              <Input
+                id="receive-message"
+                placeholder="What the payment is for"
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="flex flex-col items-center gap-3">
+            <div className="p-3 bg-white rounded-lg">
+              <QRCodeSVG value={uri} size={200} level="M" />
+            </div>
+            <div className="flex items-center gap-2 w-full p-2 bg-muted rounded-lg">
+              <code className="flex-1 text-xs break-all">{uri}</code>
+              <Button variant="ghost" size="sm" onClick={copyUri}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ArrowRight, Unlock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { walletService, type Wallet, type WalletKey, type Transaction } from "@/services/walletService";
+import { psbtService } from "@/services/psbtService";
+import { signerService } from "@/services/signerService";
+
+interface SignTransactionDialogProps {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  transaction: Transaction;
+  onSigned: (transaction: Transaction) => void;
+}
+
+export const SignTransactionDialog: React.FC<SignTransactionDialogProps> = ({ wallet, walletKeys, transaction, onSigned }) => {
+  const [open, setOpen] = useState(false);
+  const [keyId, setKeyId] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  // Keys held on other devices sign through PSBT files or QR codes instead
+  const signableKeys = walletKeys.filter(key => signerService.canSignInApp(key));
+  const selectedKey = signableKeys.find(key => key.id === keyId);
+
+  const signTransaction = async () => {
+    const walletKey = selectedKey;
+    if (!walletKey || !transaction.raw_transaction) return;
+
+    try {
+      setLoading(true);
+
+      const signer = await signerService.unlockSoftwareSigner(wallet, walletKey, password);
+      const psbt = psbtService.fromBase64(transaction.raw_transaction, wallet);
+      const signedInputs = await signer.signPsbt(psbt);
+      const signatureCount = psbtService.getSignatureCount(psbt);
+
+      const updated = await walletService.updateTransaction(
+        transaction.id,
+        psbtService.getTransactionUpdate(psbt, wallet, walletKeys, transaction.required_signatures)
+      );
+
+      setPassword('');
+      setOpen(false);
+      onSigned(updated);
+
+      toast({
+        title: "Transaction Signed",
+        description: `${walletKey.owner_name || 'Key'} signed ${signedInputs} input${signedInputs === 1 ? '' : 's'} (${signatureCount}/${transaction.required_signatures} signatures)`
+      });
+    } catch (error) {
+      toast({
+        title: "Signing Failed",
+        description: error instanceof Error ? error.message : "Failed to sign transaction",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          Sign Transaction
+          <ArrowRight className="h-4 w-4 ml-2" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Sign Transaction</DialogTitle>
+          <DialogDescription>
+            Unlock a co-signer's private key from the encrypted backup to add its signature to the PSBT
+          </DialogDescription>
+        </DialogHeader>
+
+        {signableKeys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No co-signer keys can sign in the app. Store private keys in the Private Key Backup section, or sign on the device holding each key.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="signing-key">Co-signer</Label>
+              <Select value={keyId} onValueChange={setKeyId}>
+                <SelectTrigger id="signing-key">
+                  <SelectValue placeholder="Select a key" />
+                </SelectTrigger>
+                <SelectContent>
+                  {signableKeys.map((key) => (
+                    <SelectItem key={key.id} value={key.id}>
+                      {key.owner_name || `Key ${key.key_index + 1}`} ({signerService.getSignerLabel(key.signer_type)})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="signing-password">Backup Password</Label>
+              <Input
+                id="signing-password"
+                type="password"
+                placeholder="Enter your backup password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={signTransaction}
+            disabled={loading || !selectedKey || !password}
+          >
+            <Unlock className="h-4 w-4 mr-2" />
+            {loading ? "Signing..." : "Unlock & Sign"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
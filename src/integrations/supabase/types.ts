@@ -14,6 +14,36 @@ export type Database = {
   }
   public: {
     Tables: {
+      chain_backend_settings: {
+        Row: {
+          backend: string
+          created_at: string
+          id: string
+          network: string
+          updated_at: string
+          url: string | null
+          user_id: string
+        }
+        Insert: {
+          backend: string
+          created_at?: string
+          id?: string
+          network: string
+          updated_at?: string
+          url?: string | null
+          user_id: string
+        }
+        Update: {
+          backend?: string
+          created_at?: string
+          id?: string
+          network?: string
+          updated_at?: string
+          url?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       key_backups: {
         Row: {
           created_at: string
@@ -65,17 +95,63 @@ export type Database = {
         }
         Relationships: []
       }
+      transaction_outputs: {
+        Row: {
+          address: string
+          amount_satoshis: number
+          created_at: string
+          id: string
+          label: string | null
+          output_index: number
+          transaction_id: string
+        }
+        Insert: {
+          address: string
+          amount_satoshis: number
+          created_at?: string
+          id?: string
+          label?: string | null
+          output_index: number
+          transaction_id: string
+        }
+        Update: {
+          address?: string
+          amount_satoshis?: number
+          created_at?: string
+          id?: string
+          label?: string | null
+          output_index?: number
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transaction_outputs_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       transactions: {
         Row: {
           amount_satoshis: number
+          block_height: number | null
+          broadcast_at: string | null
+          broadcast_status: string | null
+          confirmations: number
           created_at: string
           fee_satoshis: number
           id: string
           is_broadcast: boolean
           is_complete: boolean
+          missing_checks: number
+          parent_txid: string | null
           raw_transaction: string | null
+          replaces_transaction_id: string | null
           required_signatures: number
           signatures: Json
+          signed_transaction: string | null
           to_address: string
           transaction_hash: string | null
           updated_at: string
@@ -83,14 +159,22 @@ export type Database = {
         }
         Insert: {
           amount_satoshis: number
+          block_height?: number | null
+          broadcast_at?: string | null
+          broadcast_status?: string | null
+          confirmations?: number
           created_at?: string
           fee_satoshis?: number
           id?: string
           is_broadcast?: boolean
           is_complete?: boolean
+          missing_checks?: number
+          parent_txid?: string | null
           raw_transaction?: string | null
+          replaces_transaction_id?: string | null
           required_signatures: number
           signatures?: Json
+          signed_transaction?: string | null
           to_address: string
           transaction_hash?: string | null
           updated_at?: string
@@ -98,20 +182,35 @@ export type Database = {
         }
         Update: {
           amount_satoshis?: number
+          block_height?: number | null
+          broadcast_at?: string | null
+          broadcast_status?: string | null
+          confirmations?: number
           created_at?: string
           fee_satoshis?: number
           id?: string
           is_broadcast?: boolean
           is_complete?: boolean
+          missing_checks?: number
+          parent_txid?: string | null
           raw_transaction?: string | null
+          replaces_transaction_id?: string | null
           required_signatures?: number
           signatures?: Json
+          signed_transaction?: string | null
           to_address?: string
           transaction_hash?: string | null
           updated_at?: string
           wallet_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "transactions_replaces_transaction_id_fkey"
+            columns: ["replaces_transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "transactions_wallet_id_fkey"
             columns: ["wallet_id"]
@@ -121,33 +220,155 @@ export type Database = {
           },
         ]
       }
+      utxos: {
+        Row: {
+          address: string
+          confirmation_height: number | null
+          created_at: string
+          id: string
+          locked_by: string | null
+          script_hex: string
+          spent_by_txid: string | null
+          txid: string
+          updated_at: string
+          value_satoshis: number
+          vout: number
+          wallet_id: string
+        }
+        Insert: {
+          address: string
+          confirmation_height?: number | null
+          created_at?: string
+          id?: string
+          locked_by?: string | null
+          script_hex: string
+          spent_by_txid?: string | null
+          txid: string
+          updated_at?: string
+          value_satoshis: number
+          vout: number
+          wallet_id: string
+        }
+        Update: {
+          address?: string
+          confirmation_height?: number | null
+          created_at?: string
+          id?: string
+          locked_by?: string | null
+          script_hex?: string
+          spent_by_txid?: string | null
+          txid?: string
+          updated_at?: string
+          value_satoshis?: number
+          vout?: number
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "utxos_locked_by_fkey"
+            columns: ["locked_by"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "utxos_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      wallet_addresses: {
+        Row: {
+          address: string
+          address_index: number
+          chain: number
+          created_at: string
+          id: string
+          is_used: boolean
+          script_hex: string
+          wallet_id: string
+        }
+        Insert: {
+          address: string
+          address_index: number
+          chain: number
+          created_at?: string
+          id?: string
+          is_used?: boolean
+          script_hex: string
+          wallet_id: string
+        }
+        Update: {
+          address?: string
+          address_index?: number
+          chain?: number
+          created_at?: string
+          id?: string
+          is_used?: boolean
+          script_hex?: string
+          wallet_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wallet_addresses_wallet_id_fkey"
+            columns: ["wallet_id"]
+            isOneToOne: false
+            referencedRelation: "wallets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       wallet_keys: {
         Row: {
           created_at: string
+          derivation_path: string | null
           encrypted_private_key: string | null
           id: string
           key_index: number
+          master_fingerprint: string | null
           owner_name: string | null
+          private_key_iv: string | null
           public_key: string
+          signer_type: string
+          verification_method: string | null
+          verified_at: string | null
           wallet_id: string
+          xpub: string | null
         }
         Insert: {
           created_at?: string
+          derivation_path?: string | null
           encrypted_private_key?: string | null
           id?: string
           key_index: number
+          master_fingerprint?: string | null
           owner_name?: string | null
+          private_key_iv?: string | null
           public_key: string
+          signer_type?: string
+          verification_method?: string | null
+          verified_at?: string | null
           wallet_id: string
+          xpub?: string | null
         }
         Update: {
           created_at?: string
+          derivation_path?: string | null
           encrypted_private_key?: string | null
           id?: string
           key_index?: number
+          master_fingerprint?: string | null
           owner_name?: string | null
+          private_key_iv?: string | null
           public_key?: string
+          signer_type?: string
+          verification_method?: string | null
+          verified_at?: string | null
           wallet_id?: string
+          xpub?: string | null
         }
         Relationships: [
           {
@@ -165,10 +386,16 @@ export type Database = {
           created_at: string
           id: string
           is_complete: boolean
+          is_hd: boolean
           m: number
           n: number
           name: string
+          network: string
+          next_change_index: number
+          next_receive_index: number
           script_hex: string | null
+          script_type: string
+          sorted_keys: boolean
           updated_at: string
           user_id: string
         }
@@ -177,10 +404,16 @@ export type Database = {
           created_at?: string
           id?: string
           is_complete?: boolean
+          is_hd?: boolean
           m: number
           n: number
           name: string
+          network?: string
+          next_change_index?: number
+          next_receive_index?: number
           script_hex?: string | null
+          script_type?: string
+          sorted_keys?: boolean
           updated_at?: string
           user_id: string
         }
@@ -189,10 +422,16 @@ export type Database = {
           created_at?: string
           id?: string
           is_complete?: boolean
+          is_hd?: boolean
           m?: number
           n?: number
           name?: string
+          network?: string
+          next_change_index?: number
+          next_receive_index?: number
           script_hex?: string | null
+          script_type?: string
+          sorted_keys?: boolean
           updated_at?: string
           user_id?: string
         }
@@ -12,17 +12,219 @@ export interface PublicKeyInfo {
   valid: boolean;
 }
 
+export type ScriptType = 'p2sh' | 'p2sh-p2wsh' | 'p2wsh';
+
+export const SCRIPT_TYPES: Array<{ value: ScriptType; label: string; description: string }> = [
+  { value: 'p2wsh', label: 'Native SegWit (P2WSH)', description: 'Lowest fees, bech32 address (bc1...)' },
+  { value: 'p2sh-p2wsh', label: 'Nested SegWit (P2SH-P2WSH)', description: 'SegWit savings with a P2SH address (3...)' },
+  { value: 'p2sh', label: 'Legacy (P2SH)', description: 'Highest fees, widest compatibility (3...)' }
+];
+
+export type NetworkName = 'mainnet' | 'testnet' | 'signet' | 'regtest';
+
+export const NETWORKS: Array<{ value: NetworkName; label: string }> = [
+  { value: 'mainnet', label: 'Mainnet' },
+  { value: 'testnet', label: 'Testnet' },
+  { value: 'signet', label: 'Signet' },
+  { value: 'regtest', label: 'Regtest' }
+];
+
+// Signet shares testnet's address and key prefixes
+const NETWORK_PARAMS: Record<NetworkName, bitcoin.Network> = {
+  mainnet: bitcoin.networks.bitcoin,
+  testnet: bitcoin.networks.testnet,
+  signet: bitcoin.networks.testnet,
+  regtest: bitcoin.networks.regtest
+};
+
+export interface MultisigOptions {
+  scriptType?: ScriptType;
+  network?: NetworkName;
+  sortedKeys?: boolean;
+}
+
+export type OutputType = 'p2pkh' | 'p2sh' | 'p2wpkh' | 'p2wsh' | 'p2tr';
+
+export const OUTPUT_TYPES: Array<{ value: OutputType; label: string }> = [
+  { value: 'p2pkh', label: 'Legacy (P2PKH)' },
+  { value: 'p2sh', label: 'Script Hash (P2SH)' },
+  { value: 'p2wpkh', label: 'Native SegWit (P2WPKH)' },
+  { value: 'p2wsh', label: 'Native SegWit Script (P2WSH)' },
+  { value: 'p2tr', label: 'Taproot (P2TR)' }
+];
+
+export interface ParsedAddress {
+  // Canonical form: bech32 addresses are lowercased
+  address: string;
+  type: OutputType;
+  encoding: 'base58' | 'bech32' | 'bech32m';
+  outputScript: Buffer;
+}
+
+export interface SpendSizeParams {
+  scriptType: ScriptType;
+  m: number;
+  n: number;
+  inputCount: number;
+  outputTypes: OutputType[];
+}
+
+// Output script lengths in bytes
+const OUTPUT_SCRIPT_SIZE: Record<OutputType, number> = {
+  'p2pkh': 25,
+  'p2sh': 23,
+  'p2wpkh': 22,
+  'p2wsh': 34,
+  'p2tr': 34
+};
+
+// Worst case DER signature plus sighash byte
+const SIGNATURE_SIZE = 72;
+
+// Non-witness bytes count four weight units, witness bytes one
+const WITNESS_SCALE_FACTOR = 4;
+
+/**
+ * Length of a Bitcoin CompactSize integer
+ */
+const varIntSize = (value: number) => (value < 0xfd ? 1 : value <= 0xffff ? 3 : 5);
+
+/**
+ * Length of the opcode pushing data of this size in a script
+ */
+const pushDataSize = (length: number) => (length < 0x4c ? 1 : length <= 0xff ? 2 : 3);
+
+/**
+ * Identify the standard output type of an output script
+ */
+const getScriptOutputType = (script: Buffer): OutputType | null => {
+  if (script.length === 25 && script[0] === bitcoin.opcodes.OP_DUP) return 'p2pkh';
+  if (script.length === 23 && script[0] === bitcoin.opcodes.OP_HASH160) return 'p2sh';
+  if (script.length === 22 && script[0] === bitcoin.opcodes.OP_0) return 'p2wpkh';
+  if (script.length === 34 && script[0] === bitcoin.opcodes.OP_0) return 'p2wsh';
+  if (script.length === 34 && script[0] === bitcoin.opcodes.OP_1) return 'p2tr';
+  return null;
+};
+
+/**
+ * Wrap a bare multisig payment in the payment for the given script type
+ */
+const wrapMultisig = (multisig: bitcoin.Payment, scriptType: ScriptType, network: bitcoin.Network): bitcoin.Payment => {
+  switch (scriptType) {
+    case 'p2wsh':
+      return bitcoin.payments.p2wsh({ redeem: multisig, network });
+    case 'p2sh-p2wsh':
+      return bitcoin.payments.p2sh({ redeem: bitcoin.payments.p2wsh({ redeem: multisig, network }), network });
+    case 'p2sh':
+      return bitcoin.payments.p2sh({ redeem: multisig, network });
+    default:
+      throw new Error(`Unsupported script type: ${scriptType}`);
+  }
+};
+
 export const bitcoinService = {
   /**
-   * Generate a random Bitcoin key pair for testing
+   * Check whether a stored network name is one we know how to handle
    */
-  generateKeyPair() {
-    const keyPair = ECPair.makeRandom();
-    return {
-      privateKey: keyPair.privateKey ? Buffer.from(keyPair.privateKey).toString('hex') : '',
-      publicKey: Buffer.from(keyPair.publicKey).toString('hex'),
-      address: bitcoin.payments.p2pkh({ pubkey: Buffer.from(keyPair.publicKey) }).address || ''
-    };
+  isNetworkName(value: string): value is NetworkName {
+    return NETWORKS.some(network => network.value === value);
+  },
+
+  /**
+   * Get the bitcoinjs network parameters for a network name
+   */
+  getNetwork(networkName: NetworkName = 'mainnet'): bitcoin.Network {
+    return NETWORK_PARAMS[networkName];
+  },
+
+  /**
+   * Get the display label for a network name
+   */
+  getNetworkLabel(networkName: string): string {
+    return NETWORKS.find(network => network.value === networkName)?.label || networkName;
+  },
+
+  /**
+   * Load a private key given as 64 hex characters or WIF
+   */
+  getKeyPair(privateKey: string, networkName: NetworkName = 'mainnet') {
+    const network = NETWORK_PARAMS[networkName];
+    const trimmed = privateKey.trim();
+
+    if (/^[0-9a-fA-F]{64}$/.test(trimmed)) {
+      return ECPair.fromPrivateKey(Buffer.from(trimmed, 'hex'), { network });
+    }
+    return ECPair.fromWIF(trimmed, network);
+  },
+
+  /**
+   * Check that an address is valid for the given network
+   */
+  isValidAddress(address: string, networkName: NetworkName = 'mainnet'): boolean {
+    try {
+      this.parseAddress(address, networkName);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+
+  /**
+   * Parse a base58, bech32 or bech32m address for the given network and detect the output type it pays to.
+   * Throws a descriptive error for malformed addresses, addresses of another network and unsupported types.
+   */
+  parseAddress(address: string, networkName: NetworkName = 'mainnet'): ParsedAddress {
+    const trimmed = address.trim();
+    if (!trimmed) {
+      throw new Error('Address is empty');
+    }
+
+    let encoding: ParsedAddress['encoding'];
+    let canonical = trimmed;
+    try {
+      bitcoin.address.fromBase58Check(trimmed);
+      encoding = 'base58';
+    } catch (base58Error) {
+      let version: number;
+      try {
+        // Only all-lowercase or all-uppercase bech32 is valid, and both spell the same address
+        version = bitcoin.address.fromBech32(trimmed).version;
+      } catch (bech32Error) {
+        // Report the error of the encoding the address looks like: bech32 starts with a short prefix and a "1"
+        const error = /^[a-z]{2,4}1/i.test(trimmed) ? bech32Error : base58Error;
+        throw new Error(`Not a valid address: ${error instanceof Error ? error.message : 'bad checksum or characters'}`);
+      }
+      if (version > 1) {
+        throw new Error(`Unsupported address type: segwit version ${version} outputs cannot be spent safely yet`);
+      }
+      encoding = version === 0 ? 'bech32' : 'bech32m';
+      canonical = trimmed.toLowerCase();
+    }
+
+    let outputScript: Buffer;
+    try {
+      outputScript = bitcoin.address.toOutputScript(canonical, NETWORK_PARAMS[networkName]);
+    } catch (error) {
+      const otherNetwork = NETWORKS.find(({ value }) => {
+        try {
+          bitcoin.address.toOutputScript(canonical, NETWORK_PARAMS[value]);
+          return true;
+        } catch (otherError) {
+          return false;
+        }
+      });
+      if (otherNetwork) {
+        throw new Error(`This is a ${otherNetwork.label} address, but the wallet is on ${this.getNetworkLabel(networkName)}`);
+      }
+      throw new Error(`Not a valid ${this.getNetworkLabel(networkName)} address`);
+    }
+
+    const type = getScriptOutputType(outputScript);
+    if (!type) {
+      throw new Error('Unsupported address type: only P2PKH, P2SH, P2WPKH, P2WSH and P2TR can be paid');
+    }
+
+    return { address: canonical, type, encoding, outputScript };
   },
 
   /**
@@ -52,12 +254,65 @@ export const bitcoinService = {
   },
 
   /**
-   * Create a multisig P2SH address from public keys
+   * Whether a script type puts its multisig script in a witness, where nodes only relay compressed public keys
    */
-  createMultisigAddress(m: number, publicKeys: string[]): { address: string; scriptHex: string } | null {
+  isSegwitScriptType(scriptType: ScriptType): boolean {
+    return scriptType !== 'p2sh';
+  },
+
+  /**
+   * Check whether a stored script type is one we know how to handle
+   */
+  isScriptType(value: string): value is ScriptType {
+    return SCRIPT_TYPES.some(type => type.value === value);
+  },
+
+  /**
+   * Get the display label for a script type
+   */
+  getScriptTypeLabel(scriptType: string): string {
+    return SCRIPT_TYPES.find(type => type.value === scriptType)?.label || scriptType.toUpperCase();
+  },
+
+  /**
+   * Read the multisig options stored on a wallet row, falling back to legacy P2SH on mainnet
+   */
+  getMultisigOptions(wallet: { script_type: string; network: string; sorted_keys: boolean }): Required<MultisigOptions> {
+    return {
+      scriptType: bitcoinService.isScriptType(wallet.script_type) ? wallet.script_type : 'p2sh',
+      network: bitcoinService.isNetworkName(wallet.network) ? wallet.network : 'mainnet',
+      sortedKeys: wallet.sorted_keys
+    };
+  },
+
+  /**
+   * Sort public keys lexicographically as required by BIP67
+   */
+  sortPublicKeys(publicKeys: string[]): string[] {
+    publicKeys.forEach(hex => {
+      if (Buffer.from(hex, 'hex').length !== 33) {
+        throw new Error(`BIP67 requires compressed public keys: ${hex}`);
+      }
+    });
+    return [...publicKeys].sort((a, b) => Buffer.compare(Buffer.from(a, 'hex'), Buffer.from(b, 'hex')));
+  },
+
+  /**
+   * Create a multisig address from public keys, sorting them per BIP67 unless the wallet is a legacy unsorted one
+   */
+  createMultisigAddress(
+    m: number,
+    publicKeys: string[],
+    { scriptType = 'p2sh', network: networkName = 'mainnet', sortedKeys = true }: MultisigOptions = {}
+  ): { address: string; scriptHex: string; outputScriptHex: string } | null {
     try {
+      if (this.isSegwitScriptType(scriptType) && publicKeys.some(hex => Buffer.from(hex, 'hex').length !== 33)) {
+        throw new Error('SegWit multisig requires compressed public keys');
+      }
+      const orderedKeys = sortedKeys ? this.sortPublicKeys(publicKeys) : publicKeys;
+
       // Convert hex strings to buffers and validate
-      const pubkeyBuffers = publicKeys.map(hex => {
+      const pubkeyBuffers = orderedKeys.map(hex => {
         const buffer = Buffer.from(hex, 'hex');
         if (!ecc.isPoint(buffer)) {
           throw new Error(`Invalid public key: ${hex}`);
@@ -66,27 +321,28 @@ export const bitcoinService = {
       });
 
       // Create multisig script
+      const network = NETWORK_PARAMS[networkName];
       const payment = bitcoin.payments.p2ms({
         m,
         pubkeys: pubkeyBuffers,
+        network,
       });
 
       if (!payment.output) {
         throw new Error('Failed to create multisig script');
       }
 
-      // Wrap in P2SH
-      const p2sh = bitcoin.payments.p2sh({
-        redeem: payment,
-      });
+      // Wrap in the selected script type
+      const wrapped = wrapMultisig(payment, scriptType, network);
 
-      if (!p2sh.address) {
-        throw new Error('Failed to create P2SH address');
+      if (!wrapped.address || !wrapped.output) {
+        throw new Error(`Failed to create ${scriptType} address`);
       }
 
       return {
-        address: p2sh.address,
-        scriptHex: payment.output.toString('hex')
+        address: wrapped.address,
+        scriptHex: payment.output.toString('hex'),
+        outputScriptHex: wrapped.output.toString('hex')
       };
     } catch (error) {
       console.error('Error creating multisig address:', error);
@@ -95,41 +351,24 @@ export const bitcoinService = {
   },
 
   /**
-   * Create a raw transaction (simplified for demo)
+   * Get the output script plus the redeem and witness scripts needed to spend a multisig script of the given type
    */
-  createRawTransaction(
-    inputs: Array<{ txid: string; vout: number; value: number }>,
-    outputs: Array<{ address: string; value: number }>,
-    scriptHex: string
-  ): string {
-    try {
-      const psbt = new bitcoin.Psbt();
-
-      // Add inputs
-      inputs.forEach(input => {
-        psbt.addInput({
-          hash: input.txid,
-          index: input.vout,
-          redeemScript: Buffer.from(scriptHex, 'hex'),
-          witnessUtxo: {
-            script: Buffer.from(scriptHex, 'hex'),
-            value: input.value
-          }
-        });
-      });
+  getSpendScripts(
+    scriptHex: string,
+    scriptType: ScriptType = 'p2sh',
+    networkName: NetworkName = 'mainnet'
+  ): { outputScript: Buffer; redeemScript?: Buffer; witnessScript?: Buffer } {
+    const network = NETWORK_PARAMS[networkName];
+    const multisig = bitcoin.payments.p2ms({ output: Buffer.from(scriptHex, 'hex'), network });
+    const wrapped = wrapMultisig(multisig, scriptType, network);
 
-      // Add outputs
-      outputs.forEach(output => {
-        psbt.addOutput({
-          address: output.address,
-          value: output.value
-        });
-      });
-
-      return psbt.toBase64();
-    } catch (error) {
-      console.error('Error creating raw transaction:', error);
-      return '';
+    switch (scriptType) {
+      case 'p2wsh':
+        return { outputScript: wrapped.output!, witnessScript: multisig.output };
+      case 'p2sh-p2wsh':
+        return { outputScript: wrapped.output!, redeemScript: wrapped.redeem!.output, witnessScript: multisig.output };
+      default:
+        return { outputScript: wrapped.output!, redeemScript: multisig.output };
     }
   },
 
@@ -148,11 +387,81 @@ export const bitcoinService = {
   },
 
   /**
-   * Estimate transaction fee (simplified)
+   * Get the output type an address pays to
+   */
+  getOutputType(address: string, networkName: NetworkName = 'mainnet'): OutputType {
+    return this.parseAddress(address, networkName).type;
+  },
+
+  /**
+   * Get the display label for an output type
+   */
+  getOutputTypeLabel(outputType: string): string {
+    return OUTPUT_TYPES.find(type => type.value === outputType)?.label || outputType.toUpperCase();
+  },
+
+  /**
+   * Get the output type of a multisig wallet's own addresses, as used for change
+   */
+  getMultisigOutputType(scriptType: ScriptType): OutputType {
+    return scriptType === 'p2wsh' ? 'p2wsh' : 'p2sh';
+  },
+
+  /**
+   * Weight of one signed m-of-n multisig input of the given script type
+   */
+  getInputWeight(scriptType: ScriptType, m: number, n: number): number {
+    // OP_m <pubkey>... OP_n OP_CHECKMULTISIG with compressed keys
+    const multisigScriptSize = 3 + n * 34;
+    // The CHECKMULTISIG off-by-one dummy, then m signatures
+    const signaturesSize = 1 + m * (1 + SIGNATURE_SIZE);
+    // Outpoint and sequence
+    const outpointSize = 32 + 4 + 4;
+
+    if (scriptType === 'p2sh') {
+      const scriptSigSize = signaturesSize + pushDataSize(multisigScriptSize) + multisigScriptSize;
+      return (outpointSize + varIntSize(scriptSigSize) + scriptSigSize) * WITNESS_SCALE_FACTOR;
+    }
+
+    // Witness: item count, the empty dummy, the signatures and the witness script
+    const witnessSize = varIntSize(m + 2) + signaturesSize + varIntSize(multisigScriptSize) + multisigScriptSize;
+    // P2SH-P2WSH pushes the 34 byte witness program in its scriptSig; native P2WSH has an empty one
+    const scriptSigSize = scriptType === 'p2sh-p2wsh' ? 35 : 0;
+    return (outpointSize + varIntSize(scriptSigSize) + scriptSigSize) * WITNESS_SCALE_FACTOR + witnessSize;
+  },
+
+  /**
+   * Weight of an output paying to the given output type
+   */
+  getOutputWeight(outputType: OutputType): number {
+    const scriptSize = OUTPUT_SCRIPT_SIZE[outputType];
+    return (8 + varIntSize(scriptSize) + scriptSize) * WITNESS_SCALE_FACTOR;
+  },
+
+  /**
+   * Weight of a transaction spending m-of-n multisig inputs to the given outputs
+   */
+  estimateWeight({ scriptType, m, n, inputCount, outputTypes }: SpendSizeParams): number {
+    // Version and locktime, plus the segwit marker and flag which are witness data
+    const overhead = (4 + varIntSize(inputCount) + varIntSize(outputTypes.length) + 4) * WITNESS_SCALE_FACTOR +
+      (scriptType === 'p2sh' ? 0 : 2);
+
+    return overhead +
+      inputCount * this.getInputWeight(scriptType, m, n) +
+      outputTypes.reduce((total, outputType) => total + this.getOutputWeight(outputType), 0);
+  },
+
+  /**
+   * Virtual size in vbytes: weight divided by four, rounded up
+   */
+  estimateVsize(params: SpendSizeParams): number {
+    return Math.ceil(this.estimateWeight(params) / WITNESS_SCALE_FACTOR);
+  },
+
+  /**
+   * Estimate the fee in satoshis for a multisig spend at a fee rate in sat/vbyte
    */
-  estimateFee(inputCount: number, outputCount: number): number {
-    // Simplified fee calculation: ~10 sat/vbyte
-    const estimatedSize = inputCount * 148 + outputCount * 34 + 10;
-    return estimatedSize * 10; // 10 sat/vbyte
+  estimateFee(params: SpendSizeParams, feeRate: number): number {
+    return Math.ceil(this.estimateVsize(params) * feeRate);
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,218 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { bitcoinService } from '@/services/bitcoinService';
+import { chainBackendService, type ChainBackend } from '@/services/chainBackendService';
+import { psbtService } from '@/services/psbtService';
+import { walletService, type Wallet, type Transaction } from '@/services/walletService';
+
+export type BroadcastStatus = 'unconfirmed' | 'confirmed' | 'replaced' | 'dropped';
+
+// Transactions this deep are treated as final and no longer polled
+export const FINAL_CONFIRMATIONS = 6;
+
+// A broadcast transaction can be missing from a backend for a while, through propagation lag or a different
+// server than the one that accepted it, so it is only dropped after this many misses in a row and this long
+const DROPPED_AFTER_MISSING_CHECKS = 5;
+const DROPPED_AFTER_MS = 30 * 60 * 1000;
+
+const getWalletNetwork = (wallet: Wallet) => {
+  return bitcoinService.isNetworkName(wallet.network) ? wallet.network : 'mainnet';
+};
+
+/**
+ * Outpoints a transaction spends, from its signed transaction or its PSBT
+ */
+const getOutpoints = (wallet: Wallet, transaction: Transaction) => {
+  const inputs = transaction.signed_transaction
+    ? bitcoin.Transaction.fromHex(transaction.signed_transaction).ins
+    : transaction.raw_transaction ? psbtService.fromBase64(transaction.raw_transaction, wallet).txInputs : [];
+
+  return inputs.map(input => ({ txid: Buffer.from(input.hash).reverse().toString('hex'), vout: input.index }));
+};
+
+/**
+ * Other transactions of the wallet spending any of the same coins, such as fee-bump replacements and their originals
+ */
+const getConflictingTransactions = async (wallet: Wallet, transaction: Transaction) => {
+  const outpoints = getOutpoints(wallet, transaction);
+  const transactions = await walletService.getWalletTransactions(wallet.id);
+
+  return transactions.filter(tx =>
+    tx.id !== transaction.id &&
+    getOutpoints(wallet, tx).some(a => outpoints.some(b => a.txid === b.txid && a.vout === b.vout))
+  );
+};
+
+/**
+ * Check whether any input of a vanished transaction was spent by a different transaction
+ */
+const hasConflictingSpend = async (backend: ChainBackend, wallet: Wallet, transaction: Transaction) => {
+  if (!transaction.signed_transaction) return false;
+
+  const walletUtxos = await walletService.getWalletUtxos(wallet.id);
+
+  for (const input of getOutpoints(wallet, transaction)) {
+    const utxo = walletUtxos.find(u => u.txid === input.txid && u.vout === input.vout);
+    if (!utxo) continue;
+
+    const unspent = await backend.getUtxos(utxo.address);
+    if (!unspent.some(u => u.txid === input.txid && u.vout === input.vout)) {
+      return true;
+    }
+  }
+  return false;
+};
+
+export const broadcastService = {
+  /**
+   * Push a finalized transaction through the wallet network's chain backend and mark its coins spent
+   */
+  async broadcastTransaction(wallet: Wallet, transaction: Transaction): Promise<Transaction> {
+    if (!transaction.is_complete || !transaction.signed_transaction) {
+      throw new Error('Only finalized transactions can be broadcast');
+    }
+
+    const backend = await chainBackendService.getBackend(getWalletNetwork(wallet));
+    const txid = await backend.broadcast(transaction.signed_transaction);
+    // The hash of the signed transaction is its real id; record the broadcast under it before reporting a backend that disagrees
+    const hash = transaction.transaction_hash || txid;
+
+    await walletService.markUtxosSpent(transaction.id, hash);
+
+    // A fee bump takes over the coins its original spent
+    if (transaction.replaces_transaction_id) {
+      const transactions = await walletService.getWalletTransactions(wallet.id);
+      const original = transactions.find(tx => tx.id === transaction.replaces_transaction_id);
+      if (original?.transaction_hash) {
+        await walletService.reassignSpentUtxos(original.transaction_hash, hash);
+      }
+    }
+
+    const updated = await walletService.updateTransaction(transaction.id, {
+      is_broadcast: true,
+      transaction_hash: hash,
+      broadcast_status: 'unconfirmed',
+      broadcast_at: new Date().toISOString(),
+      block_height: null,
+      confirmations: 0,
+      missing_checks: 0
+    });
+
+    if (txid !== hash) {
+      throw new Error(`Broadcast recorded as ${hash}, but the backend reported ${txid}`);
+    }
+
+    return updated;
+  },
+
+  /**
+   * Look up a broadcast transaction on chain and record its confirmations, or whether it was replaced or dropped.
+   * Backend errors are thrown without changing the transaction, since they say nothing about where it is.
+   */
+  async refreshTransactionStatus(wallet: Wallet, transaction: Transaction): Promise<Transaction> {
+    if (!transaction.is_broadcast || !transaction.transaction_hash) {
+      return transaction;
+    }
+
+    const backend = await chainBackendService.getBackend(getWalletNetwork(wallet));
+    const chainTransaction = await backend.getTransaction(transaction.transaction_hash);
+
+    let updates: TablesUpdate<'transactions'>;
+    if (chainTransaction && chainTransaction.height !== null) {
+      const tipHeight = await backend.getTipHeight();
+      updates = {
+        broadcast_status: 'confirmed',
+        block_height: chainTransaction.height,
+        confirmations: Math.max(1, tipHeight - chainTransaction.height + 1),
+        missing_checks: 0
+      };
+    } else if (chainTransaction) {
+      // Still in the mempool, or back in it after a reorg
+      updates = { broadcast_status: 'unconfirmed', block_height: null, confirmations: 0, missing_checks: 0 };
+    } else if (await hasConflictingSpend(backend, wallet, transaction)) {
+      // If one of our own conflicting transactions confirmed instead, let it settle both
+      for (const conflict of await getConflictingTransactions(wallet, transaction)) {
+        if (!conflict.transaction_hash) continue;
+
+        const onChain = await backend.getTransaction(conflict.transaction_hash);
+        if (onChain && onChain.height !== null) {
+          await this.refreshTransactionStatus(wallet, conflict);
+          return { ...transaction, broadcast_status: 'replaced', block_height: null, confirmations: 0 };
+        }
+      }
+      updates = { broadcast_status: 'replaced', block_height: null, confirmations: 0 };
+    } else if (
+      transaction.missing_checks + 1 < DROPPED_AFTER_MISSING_CHECKS ||
+      Date.now() - new Date(transaction.broadcast_at || 0).getTime() < DROPPED_AFTER_MS
+    ) {
+      // Not seen yet, or not seen by this server; keep it live and count the miss
+      updates = { missing_checks: transaction.missing_checks + 1 };
+    } else {
+      // Evicted without a conflicting spend: its coins are reserved for it again so it can be rebroadcast or cancelled
+      await walletService.restoreUtxos(transaction.id, transaction.transaction_hash);
+      updates = { broadcast_status: 'dropped', is_broadcast: false, block_height: null, confirmations: 0, missing_checks: 0 };
+    }
+
+    if (updates.broadcast_status === 'confirmed' && transaction.broadcast_status !== 'confirmed') {
+      await this.resolveConflicts(wallet, transaction, transaction.transaction_hash);
+    }
+
+    if (
+      (updates.broadcast_status ?? transaction.broadcast_status) === transaction.broadcast_status &&
+      (updates.missing_checks ?? transaction.missing_checks) === transaction.missing_checks &&
+      (updates.confirmations ?? transaction.confirmations) === transaction.confirmations &&
+      (updates.block_height ?? null) === transaction.block_height
+    ) {
+      return transaction;
+    }
+    return walletService.updateTransaction(transaction.id, updates);
+  },
+
+  /**
+   * Once a transaction confirms, mark every conflicting transaction replaced, free the coins only they spent,
+   * and record the confirmed transaction as the spender of its inputs
+   */
+  async resolveConflicts(wallet: Wallet, winner: Transaction, winnerTxid: string): Promise<void> {
+    const losers = await getConflictingTransactions(wallet, winner);
+
+    for (const loser of losers) {
+      if (loser.is_broadcast && loser.transaction_hash) {
+        await walletService.restoreUtxos(loser.id, loser.transaction_hash);
+      }
+      await walletService.releaseUtxos(loser.id);
+
+      if (loser.broadcast_status !== 'replaced') {
+        await walletService.updateTransaction(loser.id, { broadcast_status: 'replaced', block_height: null, confirmations: 0 });
+      }
+    }
+
+    await walletService.markOutpointsSpent(wallet.id, getOutpoints(wallet, winner), winnerTxid);
+  },
+
+  /**
+   * Whether a transaction's on-chain status can still change and should be polled
+   */
+  needsRefresh(transaction: Transaction): boolean {
+    if (!transaction.is_broadcast) return false;
+    return transaction.broadcast_status === 'unconfirmed' ||
+      (transaction.broadcast_status === 'confirmed' && transaction.confirmations < FINAL_CONFIRMATIONS);
+  },
+
+  /**
+   * Human readable on-chain status of a transaction
+   */
+  getStatusLabel(transaction: Transaction): string | null {
+    switch (transaction.broadcast_status as BroadcastStatus | null) {
+      case 'unconfirmed':
+        return 'Unconfirmed';
+      case 'confirmed':
+        return `Confirmed (${transaction.confirmations})`;
+      case 'replaced':
+        return 'Replaced';
+      case 'dropped':
+        return 'Dropped';
+      default:
+        return null;
+    }
+  }
+};
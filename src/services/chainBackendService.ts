@@ -0,0 +1,690 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesUpdate } from '@/integrations/supabase/types';
+import { bitcoinService, type NetworkName } from '@/services/bitcoinService';
+import { hdWalletService, RECEIVE_CHAIN, CHANGE_CHAIN } from '@/services/hdWalletService';
+import { walletService, type Wallet, type WalletKey, type WalletAddress } from '@/services/walletService';
+
+export type ChainBackendSettings = Tables<'chain_backend_settings'>;
+
+export type ChainBackendType = 'esplora' | 'electrum' | 'mock';
+
+export const CHAIN_BACKENDS: Array<{ value: ChainBackendType; label: string; description: string }> = [
+  { value: 'esplora', label: 'Esplora', description: 'Esplora HTTP API, as run by Blockstream and mempool.space' },
+  { value: 'electrum', label: 'Electrum', description: 'Electrum protocol server reachable over WebSocket (ws:// or wss://)' },
+  { value: 'mock', label: 'Mock Chain', description: 'Deterministic in-memory chain for tests and demos, no network' }
+];
+
+export interface AddressHistoryItem {
+  txid: string;
+  // null while unconfirmed
+  height: number | null;
+}
+
+export interface ChainUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  height: number | null;
+}
+
+export interface ChainTransaction {
+  txid: string;
+  hex: string;
+  height: number | null;
+}
+
+export interface ChainBackend {
+  type: ChainBackendType;
+  getAddressHistory(address: string): Promise<AddressHistoryItem[]>;
+  getUtxos(address: string): Promise<ChainUtxo[]>;
+  /** Returns null when the backend does not know the transaction (never seen, or dropped from the mempool) */
+  getTransaction(txid: string): Promise<ChainTransaction | null>;
+  getTipHeight(): Promise<number>;
+  /** Fee rate in sat/vbyte to confirm within the target number of blocks */
+  estimateFee(targetBlocks?: number): Promise<number>;
+  /** Returns the txid of the broadcast transaction */
+  broadcast(transactionHex: string): Promise<string>;
+}
+
+export interface MockChainBackend extends ChainBackend {
+  /** Pay an address from a mock coinbase, returning the funding transaction (unconfirmed until mined) */
+  fund(address: string, value: number): bitcoin.Transaction;
+  /** Confirm every mempool transaction in the next block and advance the tip */
+  mine(blocks?: number): number;
+}
+
+const DEFAULT_ESPLORA_URLS: Record<NetworkName, string> = {
+  mainnet: 'https://blockstream.info/api',
+  testnet: 'https://blockstream.info/testnet/api',
+  signet: 'https://mempool.space/signet/api',
+  regtest: 'http://localhost:3002'
+};
+
+const DEFAULT_BACKENDS: Record<NetworkName, ChainBackendType> = {
+  mainnet: 'esplora',
+  testnet: 'esplora',
+  signet: 'esplora',
+  regtest: 'mock'
+};
+
+// The mock chain's coins and confirmations are made up, so it is kept off mainnet
+const isBackendAllowed = (backend: string, networkName: NetworkName) => !(backend === 'mock' && networkName === 'mainnet');
+
+const checkBackendAllowed = (backend: string, networkName: NetworkName) => {
+  if (!isBackendAllowed(backend, networkName)) {
+    throw new Error('The mock chain is for tests and demos and cannot be used on mainnet');
+  }
+};
+
+// Esplora returns confirmed address history in pages of 25
+const ESPLORA_PAGE_SIZE = 25;
+
+// HD address discovery stops after this many unused addresses in a row on a chain, as BIP44 wallets do
+const ADDRESS_GAP_LIMIT = 20;
+
+// How long an Electrum request may wait for its response before it fails
+const ELECTRUM_REQUEST_TIMEOUT = 30000;
+
+/**
+ * Esplora HTTP API backend
+ */
+export const createEsploraBackend = (baseUrl: string): ChainBackend => {
+  const url = baseUrl.trim().replace(/\/+$/, '');
+
+  const request = async (path: string, init?: RequestInit) => {
+    const response = await fetch(`${url}${path}`, init);
+    if (!response.ok) {
+      throw new Error(`Esplora request ${path} failed (${response.status}): ${await response.text()}`);
+    }
+    return response;
+  };
+
+  const getHeight = (status: { confirmed: boolean; block_height?: number }) => {
+    return status.confirmed && status.block_height !== undefined ? status.block_height : null;
+  };
+
+  return {
+    type: 'esplora',
+
+    async getAddressHistory(address) {
+      type EsploraTx = { txid: string; status: { confirmed: boolean; block_height?: number } };
+      const transactions: EsploraTx[] = await (await request(`/address/${address}/txs`)).json();
+
+      // The first page holds mempool transactions and up to 25 confirmed ones; page through the rest
+      let page = transactions.filter(tx => tx.status.confirmed);
+      while (page.length === ESPLORA_PAGE_SIZE) {
+        page = await (await request(`/address/${address}/txs/chain/${page[page.length - 1].txid}`)).json();
+        transactions.push(...page);
+      }
+
+      return transactions.map(tx => ({ txid: tx.txid, height: getHeight(tx.status) }));
+    },
+
+    async getUtxos(address) {
+      type EsploraUtxo = { txid: string; vout: number; value: number; status: { confirmed: boolean; block_height?: number } };
+      const utxos: EsploraUtxo[] = await (await request(`/address/${address}/utxo`)).json();
+      return utxos.map(utxo => ({ txid: utxo.txid, vout: utxo.vout, value: utxo.value, height: getHeight(utxo.status) }));
+    },
+
+    async getTransaction(txid) {
+      const response = await fetch(`${url}/tx/${txid}`);
+      if (response.status === 404 || response.status === 400) {
+        return null;
+      }
+      if (!response.ok) {
+        throw new Error(`Esplora request /tx/${txid} failed (${response.status})`);
+      }
+
+      const transaction = await response.json();
+      const hex = await (await request(`/tx/${txid}/hex`)).text();
+      return { txid, hex, height: getHeight(transaction.status) };
+    },
+
+    async getTipHeight() {
+      return parseInt(await (await request('/blocks/tip/height')).text(), 10);
+    },
+
+    async estimateFee(targetBlocks = 6) {
+      // Estimates are keyed by confirmation target; use the nearest target at or below the one asked for
+      const estimates: Record<string, number> = await (await request('/fee-estimates')).json();
+      const target = Object.keys(estimates)
+        .map(Number)
+        .filter(blocks => blocks <= targetBlocks)
+        .sort((a, b) => b - a)[0];
+      return Math.max(1, estimates[target] ?? 1);
+    },
+
+    async broadcast(transactionHex) {
+      return (await request('/tx', { method: 'POST', body: transactionHex.trim() })).text();
+    }
+  };
+};
+
+/**
+ * Electrum protocol backend over a WebSocket connection (JSON-RPC)
+ */
+export const createElectrumBackend = (url: string, networkName: NetworkName = 'mainnet'): ChainBackend => {
+  let connection: Promise<WebSocket> | null = null;
+  let nextId = 1;
+  const pending = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+  const connect = () => {
+    if (connection) return connection;
+
+    connection = new Promise<WebSocket>((resolve, reject) => {
+      const socket = new WebSocket(url.trim());
+
+      socket.onopen = () => resolve(socket);
+      socket.onerror = () => reject(new Error(`Could not connect to Electrum server ${url}`));
+      socket.onclose = () => {
+        connection = null;
+        pending.forEach(request => request.reject(new Error('Electrum connection closed')));
+        pending.clear();
+      };
+
+      // Each message holds one or more newline-delimited JSON-RPC responses
+      socket.onmessage = (event) => {
+        const lines = String(event.data).split('\n');
+        lines.filter(line => line.trim()).forEach(line => {
+          let message;
+          try {
+            message = JSON.parse(line);
+          } catch (error) {
+            // A malformed line cannot be matched to a request; that request fails on its timeout
+            console.error('Unreadable Electrum message', line);
+            return;
+          }
+          const request = pending.get(message?.id);
+          if (!request) return;
+
+          pending.delete(message.id);
+          if (message.error) {
+            request.reject(new Error(message.error.message || JSON.stringify(message.error)));
+          } else {
+            request.resolve(message.result);
+          }
+        });
+      };
+    }).then(async (socket) => {
+      await send(socket, 'server.version', ['btcmultisig', '1.4']);
+      return socket;
+    });
+
+    connection.catch(() => {
+      connection = null;
+    });
+    return connection;
+  };
+
+  const send = <T>(socket: WebSocket, method: string, params: unknown[]) => {
+    return new Promise<T>((resolve, reject) => {
+      const id = nextId++;
+      const timeout = setTimeout(() => {
+        pending.delete(id);
+        reject(new Error(`Electrum request ${method} timed out`));
+      }, ELECTRUM_REQUEST_TIMEOUT);
+      pending.set(id, {
+        resolve: (result) => {
+          clearTimeout(timeout);
+          resolve(result as T);
+        },
+        reject: (error) => {
+          clearTimeout(timeout);
+          reject(error);
+        }
+      });
+      socket.send(`${JSON.stringify({ jsonrpc: '2.0', id, method, params })}\n`);
+    });
+  };
+
+  const call = async <T>(method: string, params: unknown[] = []) => {
+    return send<T>(await connect(), method, params);
+  };
+
+  // Electrum indexes outputs by the reversed SHA256 of their script
+  const getScriptHash = (script: Buffer) => Buffer.from(bitcoin.crypto.sha256(script)).reverse().toString('hex');
+  const getAddressScriptHash = (address: string) => {
+    return getScriptHash(bitcoin.address.toOutputScript(address, bitcoinService.getNetwork(networkName)));
+  };
+
+  // Heights of 0 and -1 mean the transaction is in the mempool
+  const toHeight = (height: number) => (height > 0 ? height : null);
+
+  return {
+    type: 'electrum',
+
+    async getAddressHistory(address) {
+      const history = await call<Array<{ tx_hash: string; height: number }>>(
+        'blockchain.scripthash.get_history',
+        [getAddressScriptHash(address)]
+      );
+      return history.map(item => ({ txid: item.tx_hash, height: toHeight(item.height) }));
+    },
+
+    async getUtxos(address) {
+      const utxos = await call<Array<{ tx_hash: string; tx_pos: number; value: number; height: number }>>(
+        'blockchain.scripthash.listunspent',
+        [getAddressScriptHash(address)]
+      );
+      return utxos.map(utxo => ({ txid: utxo.tx_hash, vout: utxo.tx_pos, value: utxo.value, height: toHeight(utxo.height) }));
+    },
+
+    async getTransaction(txid) {
+      let hex: string;
+      try {
+        hex = await call<string>('blockchain.transaction.get', [txid]);
+      } catch (error) {
+        // Servers word this differently, but only a missing transaction is "not found"; connection and server errors propagate
+        if (error instanceof Error && /no such mempool or blockchain transaction|not found|missing transaction/i.test(error.message)) {
+          return null;
+        }
+        throw error;
+      }
+
+      // Electrum has no height lookup by txid, so find it in the history of the transaction's first output
+      const transaction = bitcoin.Transaction.fromHex(hex);
+      const history = await call<Array<{ tx_hash: string; height: number }>>(
+        'blockchain.scripthash.get_history',
+        [getScriptHash(transaction.outs[0].script)]
+      );
+      const item = history.find(entry => entry.tx_hash === txid);
+      return { txid, hex, height: item ? toHeight(item.height) : null };
+    },
+
+    async getTipHeight() {
+      const header = await call<{ height: number }>('blockchain.headers.subscribe');
+      return header.height;
+    },
+
+    async estimateFee(targetBlocks = 6) {
+      // Electrum reports BTC per kilobyte, or -1 when it has no estimate
+      const btcPerKb = await call<number>('blockchain.estimatefee', [targetBlocks]);
+      return btcPerKb > 0 ? Math.max(1, (btcPerKb * 100000000) / 1000) : 1;
+    },
+
+    async broadcast(transactionHex) {
+      return call<string>('blockchain.transaction.broadcast', [transactionHex.trim()]);
+    }
+  };
+};
+
+interface MockChainState {
+  tipHeight: number;
+  transactions: Map<string, { transaction: bitcoin.Transaction; height: number | null }>;
+  // Spending txid for each spent outpoint, keyed txid:vout
+  spent: Map<string, string>;
+  fundingCount: number;
+}
+
+// Mock chains persist per network for the session so demos can fund, broadcast and mine across calls
+const mockChains = new Map<NetworkName, MockChainState>();
+
+const MOCK_START_HEIGHT = 100;
+
+/**
+ * Deterministic in-memory chain: no randomness, no clock and no network
+ */
+export const createMockChainBackend = (networkName: NetworkName = 'regtest'): MockChainBackend => {
+  if (!mockChains.has(networkName)) {
+    mockChains.set(networkName, { tipHeight: MOCK_START_HEIGHT, transactions: new Map(), spent: new Map(), fundingCount: 0 });
+  }
+  const chain = mockChains.get(networkName)!;
+  const network = bitcoinService.getNetwork(networkName);
+
+  const outpoint = (txid: string, vout: number) => `${txid}:${vout}`;
+  const inputTxid = (input: bitcoin.TxInput) => Buffer.from(input.hash).reverse().toString('hex');
+  const paysTo = (script: Buffer, address: string) => {
+    try {
+      return bitcoin.address.fromOutputScript(script, network) === address;
+    } catch (error) {
+      return false;
+    }
+  };
+  const getFee = (transaction: bitcoin.Transaction) => {
+    const inputValue = transaction.ins.reduce((total, input) => {
+      const previous = chain.transactions.get(inputTxid(input));
+      return total + (previous?.transaction.outs[input.index]?.value || 0);
+    }, 0);
+    return inputValue - transaction.outs.reduce((total, output) => total + output.value, 0);
+  };
+
+  // Remove an unconfirmed transaction and everything spending its outputs
+  const evict = (txid: string) => {
+    const entry = chain.transactions.get(txid);
+    if (!entry) return;
+
+    entry.transaction.outs.forEach((_, vout) => {
+      const spender = chain.spent.get(outpoint(txid, vout));
+      if (spender) evict(spender);
+    });
+    entry.transaction.ins.forEach(input => chain.spent.delete(outpoint(inputTxid(input), input.index)));
+    chain.transactions.delete(txid);
+  };
+
+  const backend: MockChainBackend = {
+    type: 'mock',
+
+    async getAddressHistory(address) {
+      const history: AddressHistoryItem[] = [];
+      chain.transactions.forEach(({ transaction, height }, txid) => {
+        const receives = transaction.outs.some(output => paysTo(output.script, address));
+        const spends = transaction.ins.some(input => {
+          const previous = chain.transactions.get(inputTxid(input));
+          return previous && paysTo(previous.transaction.outs[input.index].script, address);
+        });
+        if (receives || spends) {
+          history.push({ txid, height });
+        }
+      });
+      return history.sort((a, b) => (a.height ?? Infinity) - (b.height ?? Infinity));
+    },
+
+    async getUtxos(address) {
+      const utxos: ChainUtxo[] = [];
+      chain.transactions.forEach(({ transaction, height }, txid) => {
+        transaction.outs.forEach((output, vout) => {
+          if (paysTo(output.script, address) && !chain.spent.has(outpoint(txid, vout))) {
+            utxos.push({ txid, vout, value: output.value, height });
+          }
+        });
+      });
+      return utxos;
+    },
+
+    async getTransaction(txid) {
+      const entry = chain.transactions.get(txid);
+      return entry ? { txid, hex: entry.transaction.toHex(), height: entry.height } : null;
+    },
+
+    async getTipHeight() {
+      return chain.tipHeight;
+    },
+
+    async estimateFee(targetBlocks = 6) {
+      return Math.max(1, Math.ceil(12 / targetBlocks));
+    },
+
+    async broadcast(transactionHex) {
+      const transaction = bitcoin.Transaction.fromHex(transactionHex.trim());
+      const txid = transaction.getId();
+      if (chain.transactions.has(txid)) return txid;
+
+      const conflicts = new Set<string>();
+      transaction.ins.forEach(input => {
+        const previous = chain.transactions.get(inputTxid(input));
+        if (!previous || !previous.transaction.outs[input.index]) {
+          throw new Error(`bad-txns-inputs-missingorspent: ${inputTxid(input)}:${input.index}`);
+        }
+        const spender = chain.spent.get(outpoint(inputTxid(input), input.index));
+        if (spender) conflicts.add(spender);
+      });
+
+      const fee = getFee(transaction);
+      if (fee < 0) {
+        throw new Error('bad-txns-in-belowout');
+      }
+
+      // Replace-by-fee (BIP125): only unconfirmed, opted-in transactions paying a lower fee can be replaced
+      conflicts.forEach(conflict => {
+        const existing = chain.transactions.get(conflict)!;
+        if (existing.height !== null) {
+          throw new Error('bad-txns-inputs-missingorspent');
+        }
+        if (!existing.transaction.ins.some(input => input.sequence < 0xfffffffe)) {
+          throw new Error('txn-mempool-conflict');
+        }
+        if (fee <= getFee(existing.transaction)) {
+          throw new Error('insufficient fee: replacement must pay a higher fee');
+        }
+      });
+      conflicts.forEach(evict);
+
+      chain.transactions.set(txid, { transaction, height: null });
+      transaction.ins.forEach(input => chain.spent.set(outpoint(inputTxid(input), input.index), txid));
+      return txid;
+    },
+
+    fund(address, value) {
+      // Funding spends a confirmed mock coinbase, so its inputs and fee can be looked up like any other transaction
+      const coinbase = new bitcoin.Transaction();
+      coinbase.addInput(Buffer.alloc(32), 0xffffffff, 0xffffffff, Buffer.from(`mock-funding-${networkName}-${chain.fundingCount++}`));
+      coinbase.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_TRUE]), value);
+      chain.transactions.set(coinbase.getId(), { transaction: coinbase, height: chain.tipHeight });
+
+      const transaction = new bitcoin.Transaction();
+      transaction.addInput(coinbase.getHash(), 0, 0xfffffffd);
+      transaction.addOutput(bitcoin.address.toOutputScript(address, network), value);
+      chain.transactions.set(transaction.getId(), { transaction, height: null });
+      chain.spent.set(outpoint(coinbase.getId(), 0), transaction.getId());
+      return transaction;
+    },
+
+    mine(blocks = 1) {
+      chain.transactions.forEach(entry => {
+        if (entry.height === null) entry.height = chain.tipHeight + 1;
+      });
+      chain.tipHeight += blocks;
+      return chain.tipHeight;
+    }
+  };
+
+  return backend;
+};
+
+// Electrum connections are reused across calls
+const backendCache = new Map<string, ChainBackend>();
+
+export const chainBackendService = {
+  /**
+   * Get the backend used for a network when the user has not chosen one
+   */
+  getDefaultSetting(networkName: NetworkName): { backend: ChainBackendType; url: string | null } {
+    const backend = DEFAULT_BACKENDS[networkName];
+    return { backend, url: backend === 'esplora' ? DEFAULT_ESPLORA_URLS[networkName] : null };
+  },
+
+  /**
+   * Get the public Esplora server used for a network by default
+   */
+  getDefaultEsploraUrl(networkName: NetworkName): string {
+    return DEFAULT_ESPLORA_URLS[networkName];
+  },
+
+  /**
+   * Backends a network can use; mainnet cannot use the mock chain
+   */
+  getBackendOptions(networkName: NetworkName) {
+    return CHAIN_BACKENDS.filter(option => isBackendAllowed(option.value, networkName));
+  },
+
+  isBackendAllowed(backend: string, networkName: NetworkName): boolean {
+    return isBackendAllowed(backend, networkName);
+  },
+
+  /**
+   * Create a backend for a network from a backend type and server URL
+   */
+  createBackend(backend: ChainBackendType, url: string | null, networkName: NetworkName): ChainBackend {
+    checkBackendAllowed(backend, networkName);
+
+    const cacheKey = `${backend}:${networkName}:${url || ''}`;
+    const cached = backendCache.get(cacheKey);
+    if (cached) return cached;
+
+    let chainBackend: ChainBackend;
+    switch (backend) {
+      case 'esplora':
+        chainBackend = createEsploraBackend(url || DEFAULT_ESPLORA_URLS[networkName]);
+        break;
+      case 'electrum':
+        if (!url) {
+          throw new Error('An Electrum server URL is required');
+        }
+        chainBackend = createElectrumBackend(url, networkName);
+        break;
+      case 'mock':
+        chainBackend = createMockChainBackend(networkName);
+        break;
+      default:
+        throw new Error(`Unknown chain backend: ${backend}`);
+    }
+
+    backendCache.set(cacheKey, chainBackend);
+    return chainBackend;
+  },
+
+  async getSettings() {
+    const { data, error } = await supabase
+      .from('chain_backend_settings')
+      .select('*');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async saveSetting(networkName: NetworkName, backend: ChainBackendType, url: string | null) {
+    checkBackendAllowed(backend, networkName);
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('chain_backend_settings')
+      .upsert({ user_id: user.id, network: networkName, backend, url }, { onConflict: 'user_id,network' })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  /**
+   * Get the backend the user has configured for a network, or the network's default
+   */
+  async getBackend(networkName: NetworkName): Promise<ChainBackend> {
+    const settings = await this.getSettings();
+    const setting = settings.find(s => s.network === networkName) || this.getDefaultSetting(networkName);
+    return this.createBackend(setting.backend as ChainBackendType, setting.url, networkName);
+  },
+
+  /**
+   * Look up outputs of pasted transactions on the chain, so only real, unspent coins are recorded.
+   * Returns each output's confirmation height, and throws for outputs the backend does not list as unspent.
+   */
+  async checkUnspentOutputs<T extends { txid: string; vout: number; address: string }>(backend: ChainBackend, outputs: T[]): Promise<Array<T & { height: number | null }>> {
+    const listed = new Map<string, ChainUtxo[]>();
+    for (const address of new Set(outputs.map(output => output.address))) {
+      listed.set(address, await backend.getUtxos(address));
+    }
+
+    return outputs.map(output => {
+      const utxo = listed.get(output.address)?.find(u => u.txid === output.txid && u.vout === output.vout);
+      if (!utxo) {
+        throw new Error(`Coin ${output.txid}:${output.vout} is not an unspent output on the chain; it may be unbroadcast or already spent`);
+      }
+      return { ...output, height: utxo.height };
+    });
+  },
+
+  /**
+   * Find an HD wallet's used addresses by scanning each chain until ADDRESS_GAP_LIMIT addresses in a row have
+   * no history, since a wallet imported from another coordinator may have used any of them. Used addresses are
+   * stored and marked used, and each chain's next index moves past its last used address; a current receive
+   * address left behind is replaced by a fresh one.
+   */
+  async discoverWalletAddresses(backend: ChainBackend, wallet: Wallet, walletKeys: WalletKey[]): Promise<Wallet> {
+    const keys = hdWalletService.getExtendedKeys(walletKeys);
+    const options = bitcoinService.getMultisigOptions(wallet);
+    const stored = await walletService.getWalletAddresses(wallet.id);
+    const updates: TablesUpdate<'wallets'> = {};
+
+    for (const chain of [RECEIVE_CHAIN, CHANGE_CHAIN] as const) {
+      let lastUsed = -1;
+      for (let index = 0; index - lastUsed <= ADDRESS_GAP_LIMIT; index++) {
+        const existing = stored.find(a => a.chain === chain && a.address_index === index);
+        if (existing?.is_used) {
+          lastUsed = index;
+          continue;
+        }
+
+        const derived = existing ? null : hdWalletService.deriveMultisigAddress(wallet.m, keys, chain, index, options);
+        const address = existing?.address || derived?.address;
+        if (!address) {
+          throw new Error(`Failed to derive address ${chain}/${index}`);
+        }
+
+        const history = await backend.getAddressHistory(address);
+        if (history.length === 0) continue;
+
+        lastUsed = index;
+        if (existing) {
+          await walletService.updateWalletAddress(existing.id, { is_used: true });
+        } else if (derived) {
+          await walletService.addWalletAddress({
+            wallet_id: wallet.id,
+            chain,
+            address_index: index,
+            address: derived.address,
+            script_hex: derived.scriptHex,
+            is_used: true
+          });
+        }
+      }
+
+      if (chain === RECEIVE_CHAIN && lastUsed + 1 > wallet.next_receive_index) {
+        updates.next_receive_index = lastUsed + 1;
+      } else if (chain === CHANGE_CHAIN && lastUsed + 1 > wallet.next_change_index) {
+        updates.next_change_index = lastUsed + 1;
+      }
+    }
+
+    if (Object.keys(updates).length === 0) return wallet;
+
+    const updatedWallet = await walletService.updateWallet(wallet.id, updates);
+    if (updatedWallet.address && updates.next_receive_index !== undefined) {
+      return (await hdWalletService.issueNextAddress(updatedWallet, walletKeys, RECEIVE_CHAIN)).wallet;
+    }
+    return updatedWallet;
+  },
+
+  /**
+   * Record the wallet's unspent outputs as reported by the backend and drop stored coins it no longer lists.
+   * HD wallets first discover their used addresses, so the wallet is returned as it stands after the sync.
+   */
+  async syncWalletUtxos(backend: ChainBackend, wallet: Wallet, walletKeys: WalletKey[]): Promise<{ wallet: Wallet; count: number }> {
+    const syncedWallet = wallet.is_hd ? await this.discoverWalletAddresses(backend, wallet, walletKeys) : wallet;
+
+    // Single-address wallets have no wallet_addresses rows
+    const addresses: Array<Pick<WalletAddress, 'address' | 'script_hex'>> = syncedWallet.is_hd
+      ? await walletService.getWalletAddresses(syncedWallet.id)
+      : [{ address: syncedWallet.address || '', script_hex: syncedWallet.script_hex || '' }];
+
+    let count = 0;
+    for (const walletAddress of addresses) {
+      if (!walletAddress.address) continue;
+
+      const utxos = await backend.getUtxos(walletAddress.address);
+      await walletService.saveUtxos(utxos.map(utxo => ({
+        wallet_id: syncedWallet.id,
+        address: walletAddress.address,
+        txid: utxo.txid,
+        vout: utxo.vout,
+        value_satoshis: utxo.value,
+        script_hex: walletAddress.script_hex,
+        confirmation_height: utxo.height
+      })));
+      await walletService.removeMissingUtxos(syncedWallet.id, walletAddress.address, utxos);
+      count += utxos.length;
+    }
+
+    return { wallet: syncedWallet, count };
+  },
+
+  /**
+   * Human readable label for a backend type
+   */
+  getBackendLabel(backend: string): string {
+    return CHAIN_BACKENDS.find(option => option.value === backend)?.label || backend;
+  }
+};
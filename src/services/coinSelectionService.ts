@@ -0,0 +1,319 @@
+import { bitcoinService, type OutputType, type ScriptType } from '@/services/bitcoinService';
+import { DUST_THRESHOLD } from '@/services/psbtService';
+
+export type CoinSelectionStrategy = 'auto' | 'branch-and-bound' | 'knapsack' | 'largest-first' | 'oldest-first' | 'manual';
+
+export const COIN_SELECTION_STRATEGIES: Array<{ value: CoinSelectionStrategy; label: string; description: string }> = [
+  { value: 'auto', label: 'Automatic', description: 'Branch-and-bound for a changeless spend, falling back to knapsack' },
+  { value: 'branch-and-bound', label: 'Branch and Bound', description: 'Only spend coins that add up without change' },
+  { value: 'knapsack', label: 'Knapsack', description: 'Randomized search for the closest total above the target' },
+  { value: 'largest-first', label: 'Largest First', description: 'Fewest inputs, spending the biggest coins' },
+  { value: 'oldest-first', label: 'Oldest First', description: 'Spend the earliest confirmed coins first' },
+  { value: 'manual', label: 'Manual', description: 'Spend exactly the coins you choose' }
+];
+
+export interface SpendableUtxo {
+  txid: string;
+  vout: number;
+  value: number;
+  confirmationHeight?: number | null;
+}
+
+export interface CoinSelectionParams<T extends SpendableUtxo> {
+  utxos: T[];
+  target: number;
+  feeRate: number;
+  scriptType: ScriptType;
+  m: number;
+  n: number;
+  // Types of the outputs being paid, not counting change
+  outputTypes: OutputType[];
+  strategy?: CoinSelectionStrategy;
+}
+
+export interface CoinSelection<T extends SpendableUtxo> {
+  inputs: T[];
+  change: number;
+  fee: number;
+  vsize: number;
+  strategy: CoinSelectionStrategy;
+}
+
+// Search limits, matching Bitcoin Core's coin selection
+const BNB_MAX_TRIES = 100000;
+const KNAPSACK_ITERATIONS = 1000;
+
+interface SelectionContext<T extends SpendableUtxo> {
+  utxos: Array<{ utxo: T; effectiveValue: number }>;
+  target: number;
+  feeRate: number;
+  scriptType: ScriptType;
+  m: number;
+  n: number;
+  outputTypes: OutputType[];
+  // Fee for the transaction without inputs or change, and the extra cost of one input and of a change output
+  baseFee: number;
+  inputFee: number;
+  changeFee: number;
+}
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Price the selected coins: keep change if it is worth more than dust, otherwise leave it to the fee
+ */
+const finishSelection = <T extends SpendableUtxo>(
+  context: SelectionContext<T>,
+  selected: T[],
+  strategy: CoinSelectionStrategy
+): CoinSelection<T> | null => {
+  const total = sum(selected.map(utxo => utxo.value));
+  const sizeParams = { scriptType: context.scriptType, m: context.m, n: context.n, inputCount: selected.length };
+  const withChange = { ...sizeParams, outputTypes: [...context.outputTypes, bitcoinService.getMultisigOutputType(context.scriptType)] };
+  const withoutChange = { ...sizeParams, outputTypes: context.outputTypes };
+  const feeWithChange = bitcoinService.estimateFee(withChange, context.feeRate);
+  const feeWithoutChange = bitcoinService.estimateFee(withoutChange, context.feeRate);
+
+  const change = total - context.target - feeWithChange;
+  if (change >= DUST_THRESHOLD) {
+    return { inputs: selected, change, fee: feeWithChange, vsize: bitcoinService.estimateVsize(withChange), strategy };
+  }
+  if (total - context.target >= feeWithoutChange) {
+    return { inputs: selected, change: 0, fee: total - context.target, vsize: bitcoinService.estimateVsize(withoutChange), strategy };
+  }
+  return null;
+};
+
+/**
+ * Depth-first search for a set of coins whose effective value lands between the target and the target plus the cost of change,
+ * preferring the set that wastes the least
+ */
+const selectBranchAndBound = <T extends SpendableUtxo>(context: SelectionContext<T>): T[] => {
+  const utxos = [...context.utxos].sort((a, b) => b.effectiveValue - a.effectiveValue);
+  const target = context.target + context.baseFee;
+  const upperBound = target + context.changeFee + context.inputFee;
+
+  let available = sum(utxos.map(u => u.effectiveValue));
+  if (available < target) {
+    throw new Error('Not enough spendable funds for a changeless spend');
+  }
+
+  const selection: boolean[] = [];
+  let selectedValue = 0;
+  let best: boolean[] | null = null;
+  let bestExcess = Infinity;
+
+  for (let tries = 0, depth = 0; tries < BNB_MAX_TRIES; tries++) {
+    let backtrack = false;
+
+    if (selectedValue + available < target || selectedValue > upperBound) {
+      backtrack = true;
+    } else if (selectedValue >= target) {
+      if (selectedValue - target < bestExcess) {
+        bestExcess = selectedValue - target;
+        best = [...selection];
+      }
+      backtrack = true;
+    }
+
+    if (backtrack) {
+      // Walk back to the last included coin and try excluding it instead
+      while (depth > 0 && !selection[depth - 1]) {
+        depth--;
+        available += utxos[depth].effectiveValue;
+      }
+      if (depth === 0) break;
+
+      selection[depth - 1] = false;
+      selectedValue -= utxos[depth - 1].effectiveValue;
+      selection.length = depth;
+    } else {
+      // Include the next coin, skipping it if an equal coin was just excluded since that branch was already explored
+      const current = utxos[depth];
+      available -= current.effectiveValue;
+      const skip = depth > 0 && !selection[depth - 1] && utxos[depth - 1].effectiveValue === current.effectiveValue;
+      selection[depth] = !skip;
+      if (!skip) selectedValue += current.effectiveValue;
+      depth++;
+    }
+  }
+
+  if (!best) {
+    throw new Error('No combination of coins matches the amount closely enough to avoid change');
+  }
+  return utxos.filter((_, i) => best![i]).map(u => u.utxo);
+};
+
+/**
+ * Randomized subset search for the smallest total covering the target plus change (Bitcoin Core's knapsack solver)
+ */
+const selectKnapsack = <T extends SpendableUtxo>(context: SelectionContext<T>): T[] => {
+  const target = context.target + context.baseFee + context.changeFee + DUST_THRESHOLD;
+  const utxos = [...context.utxos].sort((a, b) => b.effectiveValue - a.effectiveValue);
+
+  const exact = utxos.find(u => u.effectiveValue === target);
+  if (exact) return [exact.utxo];
+
+  const smaller = utxos.filter(u => u.effectiveValue < target);
+  const smallestLarger = [...utxos].reverse().find(u => u.effectiveValue > target);
+  const smallerTotal = sum(smaller.map(u => u.effectiveValue));
+
+  if (smallerTotal === target) return smaller.map(u => u.utxo);
+  if (smallerTotal < target) {
+    if (smallestLarger) return [smallestLarger.utxo];
+    // Too little for change as well, but spending everything may still cover the amount and fee
+    if (smallerTotal >= context.target + context.baseFee) return smaller.map(u => u.utxo);
+    throw new Error('Not enough spendable funds to cover the amount, fee and change');
+  }
+
+  let best = smaller.map(() => true);
+  let bestValue = smallerTotal;
+
+  for (let i = 0; i < KNAPSACK_ITERATIONS && bestValue !== target; i++) {
+    const included = smaller.map(() => false);
+    let value = 0;
+    let reachedTarget = false;
+
+    // Two passes: random inclusion, then fill in what the first pass skipped
+    for (let pass = 0; pass < 2 && !reachedTarget; pass++) {
+      smaller.forEach((u, j) => {
+        if (included[j] || (pass === 0 && Math.random() < 0.5)) return;
+        included[j] = true;
+        value += u.effectiveValue;
+        if (value >= target) {
+          reachedTarget = true;
+          if (value < bestValue) {
+            bestValue = value;
+            best = [...included];
+          }
+          // Drop the coin again and keep looking for a closer total
+          included[j] = false;
+          value -= u.effectiveValue;
+        }
+      });
+    }
+  }
+
+  if (smallestLarger && smallestLarger.effectiveValue <= bestValue) {
+    return [smallestLarger.utxo];
+  }
+  return smaller.filter((_, i) => best[i]).map(u => u.utxo);
+};
+
+/**
+ * Add coins in the given order until they cover the amount and fee
+ */
+const selectInOrder = <T extends SpendableUtxo>(context: SelectionContext<T>, ordered: Array<{ utxo: T; effectiveValue: number }>): T[] => {
+  const target = context.target + context.baseFee;
+  const selected: T[] = [];
+  let value = 0;
+
+  for (const u of ordered) {
+    selected.push(u.utxo);
+    value += u.effectiveValue;
+    if (value >= target) return selected;
+  }
+
+  throw new Error('Not enough spendable funds to cover the amount and fee');
+};
+
+export const coinSelectionService = {
+  /**
+   * Choose which coins fund a spend of `target` satoshis at `feeRate` sat/vbyte, returning the inputs, change, fee and size.
+   * Throws with the reason when no selection is possible.
+   */
+  selectCoins<T extends SpendableUtxo>({
+    utxos,
+    target,
+    feeRate,
+    scriptType,
+    m,
+    n,
+    outputTypes,
+    strategy = 'auto'
+  }: CoinSelectionParams<T>): CoinSelection<T> {
+    if (!Number.isFinite(feeRate) || feeRate <= 0) {
+      throw new Error('Fee rate must be greater than 0 sat/vB');
+    }
+    if (target < DUST_THRESHOLD) {
+      throw new Error(`Amount must be at least ${DUST_THRESHOLD} sats`);
+    }
+    if (utxos.length === 0) {
+      throw new Error('The wallet has no spendable coins');
+    }
+
+    const baseFee = bitcoinService.estimateFee({ scriptType, m, n, inputCount: 0, outputTypes }, feeRate);
+    const inputFee = Math.ceil(bitcoinService.getInputWeight(scriptType, m, n) / 4 * feeRate);
+    const changeFee = Math.ceil(bitcoinService.getOutputWeight(bitcoinService.getMultisigOutputType(scriptType)) / 4 * feeRate);
+    const total = sum(utxos.map(utxo => utxo.value));
+
+    // Coins worth less than the fee to spend them only lower the amount that can be sent
+    const context: SelectionContext<T> = {
+      utxos: utxos
+        .map(utxo => ({ utxo, effectiveValue: utxo.value - inputFee }))
+        .filter(u => u.effectiveValue > 0),
+      target,
+      feeRate,
+      scriptType,
+      m,
+      n,
+      outputTypes,
+      baseFee,
+      inputFee,
+      changeFee
+    };
+
+    if (strategy !== 'manual' && context.utxos.length === 0) {
+      throw new Error(`Every coin is worth less than the ${inputFee} sat fee to spend it at ${feeRate} sat/vB`);
+    }
+    if (strategy !== 'manual' && sum(context.utxos.map(u => u.effectiveValue)) < target + baseFee) {
+      throw new Error(
+        `Insufficient funds: ${bitcoinService.satoshisToBtc(total)} BTC available, ` +
+        `${bitcoinService.satoshisToBtc(target + baseFee + inputFee)} BTC or more needed including fees`
+      );
+    }
+
+    let selected: T[];
+    let used = strategy;
+    switch (strategy) {
+      case 'auto':
+        try {
+          selected = selectBranchAndBound(context);
+          used = 'branch-and-bound';
+        } catch (error) {
+          selected = selectKnapsack(context);
+          used = 'knapsack';
+        }
+        break;
+      case 'branch-and-bound':
+        selected = selectBranchAndBound(context);
+        break;
+      case 'knapsack':
+        selected = selectKnapsack(context);
+        break;
+      case 'largest-first':
+        selected = selectInOrder(context, [...context.utxos].sort((a, b) => b.utxo.value - a.utxo.value));
+        break;
+      case 'oldest-first':
+        // Unconfirmed coins have no height and go last
+        selected = selectInOrder(context, [...context.utxos].sort((a, b) =>
+          (a.utxo.confirmationHeight ?? Infinity) - (b.utxo.confirmationHeight ?? Infinity)
+        ));
+        break;
+      case 'manual':
+        selected = utxos;
+        break;
+      default:
+        throw new Error(`Unknown coin selection strategy: ${strategy}`);
+    }
+
+    const selection = finishSelection(context, selected, used);
+    if (!selection) {
+      throw new Error(
+        `The selected coins hold ${bitcoinService.satoshisToBtc(sum(selected.map(utxo => utxo.value)))} BTC, ` +
+        'which does not cover the amount plus fee'
+      );
+    }
+    return selection;
+  }
+};
@@ -23,6 +23,20 @@ export const cryptoService = {
   encrypt(data: string, password: string): EncryptionResult {
     const salt = CryptoJS.lib.WordArray.random(128 / 8).toString();
     const iv = CryptoJS.lib.WordArray.random(128 / 8).toString();
+    return this.encryptWithParams(data, password, salt, iv);
+  },
+
+  /**
+   * Encrypt data using AES with password and an existing salt (e.g. a wallet's shared key backup salt) and a fresh IV
+   */
+  encryptWithSalt(data: string, password: string, salt: string): EncryptionResult {
+    return this.encryptWithParams(data, password, salt, CryptoJS.lib.WordArray.random(128 / 8).toString());
+  },
+
+  /**
+   * Encrypt data using AES with password, salt and IV
+   */
+  encryptWithParams(data: string, password: string, salt: string, iv: string): EncryptionResult {
     const key = this.deriveKey(password, salt);
     
     const encrypted = CryptoJS.AES.encrypt(data, key, {
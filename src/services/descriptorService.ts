@@ -0,0 +1,244 @@
+import { TablesInsert } from '@/integrations/supabase/types';
+import { bitcoinService, type NetworkName, type ScriptType } from '@/services/bitcoinService';
+import { hdWalletService } from '@/services/hdWalletService';
+import { type Wallet, type WalletKey } from '@/services/walletService';
+
+export interface WalletDescriptors {
+  receive: string;
+  change: string | null;
+}
+
+export interface ParsedDescriptor {
+  wallet: Omit<TablesInsert<'wallets'>, 'user_id'>;
+  keys: Array<Omit<TablesInsert<'wallet_keys'>, 'id' | 'wallet_id'>>;
+}
+
+// BIP380 descriptor checksum character sets and generator
+const INPUT_CHARSET = "0123456789()[],'/*abcdefgh@:$%{}IJKLMNOPQRSTUVWXYZ&+-.;<=>?!^_|~ijklmnopqrstuvwxyzABCDEFGH`#\"\\ ";
+const CHECKSUM_CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+const GENERATOR = [0xf5dee51989n, 0xa9fdca3312n, 0x1bab10e32dn, 0x3706b1677an, 0x644d626ffdn];
+
+const polymod = (c: bigint, value: number): bigint => {
+  const c0 = c >> 35n;
+  let result = ((c & 0x7ffffffffn) << 5n) ^ BigInt(value);
+  GENERATOR.forEach((generator, i) => {
+    if ((c0 >> BigInt(i)) & 1n) {
+      result ^= generator;
+    }
+  });
+  return result;
+};
+
+const SCRIPT_WRAPPERS: Record<ScriptType, [string, string]> = {
+  'p2sh': ['sh(', ')'],
+  'p2sh-p2wsh': ['sh(wsh(', '))'],
+  'p2wsh': ['wsh(', ')']
+};
+
+// Ranged key suffixes accepted on import: receive, change or a BIP389 multipath for both
+const RANGED_SUFFIXES = ['/0/*', '/1/*', '/<0;1>/*'];
+
+/**
+ * Strip a function wrapper such as wsh(...) from a descriptor expression
+ */
+const unwrap = (expression: string, name: string): string | null => {
+  const prefix = `${name}(`;
+  if (expression.startsWith(prefix) && expression.endsWith(')')) {
+    return expression.slice(prefix.length, -1);
+  }
+  return null;
+};
+
+/**
+ * Convert a stored derivation path (m/48'/0'/0'/2') to descriptor origin form (48h/0h/0h/2h)
+ */
+const toOriginPath = (path: string): string => {
+  return hdWalletService.normalizeDerivationPath(path).replace(/^m\/?/, '').replace(/'/g, 'h');
+};
+
+export const descriptorService = {
+  /**
+   * Compute the BIP380 checksum of a descriptor without its checksum
+   */
+  getChecksum(descriptor: string): string {
+    let c = 1n;
+    let cls = 0;
+    let clsCount = 0;
+
+    for (const ch of descriptor) {
+      const position = INPUT_CHARSET.indexOf(ch);
+      if (position === -1) {
+        throw new Error(`Invalid character in descriptor: ${ch}`);
+      }
+      c = polymod(c, position & 31);
+      cls = cls * 3 + (position >> 5);
+      if (++clsCount === 3) {
+        c = polymod(c, cls);
+        cls = 0;
+        clsCount = 0;
+      }
+    }
+
+    if (clsCount > 0) {
+      c = polymod(c, cls);
+    }
+    for (let i = 0; i < 8; i++) {
+      c = polymod(c, 0);
+    }
+    c ^= 1n;
+
+    let checksum = '';
+    for (let i = 0; i < 8; i++) {
+      checksum += CHECKSUM_CHARSET[Number((c >> BigInt(5 * (7 - i))) & 31n)];
+    }
+    return checksum;
+  },
+
+  /**
+   * Append the BIP380 checksum to a descriptor
+   */
+  addChecksum(descriptor: string): string {
+    return `${descriptor}#${this.getChecksum(descriptor)}`;
+  },
+
+  /**
+   * Remove and verify a descriptor's checksum, if it has one
+   */
+  stripChecksum(descriptor: string): string {
+    const [body, checksum, ...rest] = descriptor.trim().split('#');
+
+    if (rest.length > 0) {
+      throw new Error('Descriptor contains more than one checksum separator');
+    }
+    if (checksum !== undefined && checksum !== this.getChecksum(body)) {
+      throw new Error(`Descriptor checksum mismatch: expected ${this.getChecksum(body)}, got ${checksum}`);
+    }
+
+    return body;
+  },
+
+  /**
+   * Write a wallet as output descriptors. HD wallets get separate receive (/0/*) and change (/1/*) descriptors.
+   */
+  exportWalletDescriptors(wallet: Wallet, walletKeys: WalletKey[]): WalletDescriptors {
+    if (walletKeys.length !== wallet.n) {
+      throw new Error(`Wallet has ${walletKeys.length} of ${wallet.n} keys`);
+    }
+
+    const { scriptType, sortedKeys } = bitcoinService.getMultisigOptions(wallet);
+    const [open, close] = SCRIPT_WRAPPERS[scriptType];
+    const multi = sortedKeys ? 'sortedmulti' : 'multi';
+
+    const build = (keyExpressions: string[]) => {
+      return this.addChecksum(`${open}${multi}(${wallet.m},${keyExpressions.join(',')})${close}`);
+    };
+
+    if (!wallet.is_hd) {
+      return { receive: build(walletKeys.map(key => key.public_key)), change: null };
+    }
+
+    const extendedKeys = hdWalletService.getExtendedKeys(walletKeys);
+    const keyExpressions = (chain: number) => extendedKeys.map(key =>
+      `[${key.masterFingerprint}/${toOriginPath(key.derivationPath)}]${key.xpub}/${chain}/*`
+    );
+
+    return { receive: build(keyExpressions(0)), change: build(keyExpressions(1)) };
+  },
+
+  /**
+   * Parse a multisig descriptor into a wallets row and its wallet_keys rows
+   */
+  parseDescriptor(descriptor: string, name: string, networkName: NetworkName = 'mainnet'): ParsedDescriptor {
+    const body = this.stripChecksum(descriptor).replace(/\s+/g, '');
+
+    let scriptType: ScriptType;
+    let inner = unwrap(body, 'sh');
+    if (inner !== null) {
+      const witness = unwrap(inner, 'wsh');
+      scriptType = witness !== null ? 'p2sh-p2wsh' : 'p2sh';
+      inner = witness ?? inner;
+    } else if ((inner = unwrap(body, 'wsh')) !== null) {
+      scriptType = 'p2wsh';
+    } else {
+      throw new Error('Unsupported descriptor: only sh(), sh(wsh()) and wsh() multisig descriptors can be imported');
+    }
+
+    const multisig = /^(multi|sortedmulti)\((.*)\)$/.exec(inner);
+    if (!multisig) {
+      throw new Error('Unsupported descriptor: the script must be multi() or sortedmulti()');
+    }
+
+    const [threshold, ...keyExpressions] = multisig[2].split(',');
+    const m = parseInt(threshold, 10);
+    const n = keyExpressions.length;
+
+    if (!/^\d+$/.test(threshold) || m < 1 || m > n) {
+      throw new Error(`Invalid multisig threshold: ${threshold} of ${n}`);
+    }
+    if (n > 15) {
+      throw new Error(`Multisig wallets support at most 15 keys, descriptor has ${n}`);
+    }
+
+    const keys = keyExpressions.map((expression, index) => {
+      const match = /^(?:\[([0-9a-fA-F]{8})((?:\/\d+['h]?)*)\])?([^/[\]]+)((?:\/[^/]+)*)$/.exec(expression);
+      if (!match) {
+        throw new Error(`Invalid key expression: ${expression}`);
+      }
+
+      const [, fingerprint, originPath, key, suffix] = match;
+      const base = { key_index: index, owner_name: `Key ${index + 1}` };
+
+      if (/^[0-9a-fA-F]+$/.test(key)) {
+        if (suffix) {
+          throw new Error(`Public key cannot have a derivation suffix: ${expression}`);
+        }
+        if (!bitcoinService.validatePublicKey(key).valid) {
+          throw new Error(`Invalid public key: ${key}`);
+        }
+        return { ...base, public_key: key.toLowerCase(), xpub: null, master_fingerprint: null, derivation_path: null };
+      }
+
+      if (!RANGED_SUFFIXES.includes(suffix)) {
+        throw new Error(`Extended keys must be ranged with /0/*, /1/* or /<0;1>/*: ${expression}`);
+      }
+      if (!fingerprint) {
+        throw new Error(`Extended key is missing its [fingerprint/path] origin: ${expression}`);
+      }
+
+      const node = hdWalletService.parseExtendedKey(key, networkName);
+      return {
+        ...base,
+        public_key: node.publicKey.toString('hex'),
+        xpub: node.toBase58(),
+        master_fingerprint: fingerprint.toLowerCase(),
+        derivation_path: hdWalletService.normalizeDerivationPath(`m${originPath}`)
+      };
+    });
+
+    const isHd = keys.every(key => key.xpub);
+    if (!isHd && keys.some(key => key.xpub)) {
+      throw new Error('Descriptors mixing extended keys and plain public keys are not supported');
+    }
+    if (multisig[1] === 'sortedmulti' && keys.some(key => key.public_key.length !== 66)) {
+      throw new Error('sortedmulti() requires compressed public keys');
+    }
+    // Witness scripts with uncompressed keys are non-standard, so coins sent to them could not be spent through relay
+    if (bitcoinService.isSegwitScriptType(scriptType) && keys.some(key => key.public_key.length !== 66)) {
+      throw new Error('SegWit descriptors require compressed public keys');
+    }
+
+    return {
+      wallet: {
+        name,
+        m,
+        n,
+        script_type: scriptType,
+        network: networkName,
+        sorted_keys: multisig[1] === 'sortedmulti',
+        is_hd: isHd,
+        is_complete: false
+      },
+      keys
+    };
+  }
+};
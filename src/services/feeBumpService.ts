@@ -0,0 +1,285 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { bitcoinService } from '@/services/bitcoinService';
+import { chainBackendService } from '@/services/chainBackendService';
+import { psbtService, DUST_THRESHOLD, type PsbtInput, type PsbtChangeOutput } from '@/services/psbtService';
+import { walletService, type Wallet, type WalletKey, type Transaction, type Utxo } from '@/services/walletService';
+
+// Minimum relay fee rate, in sat/vbyte, a replacement must add on top of the fee it replaces (BIP125 rule 4)
+export const INCREMENTAL_RELAY_FEE = 1;
+
+export interface CpfpPlan {
+  parentTxid: string;
+  parentHex: string;
+  parentVsize: number;
+  parentFee: number;
+  childVsize: number;
+  childFee: number;
+  // Fee rate of parent and child together, as miners evaluate the package
+  packageFeeRate: number;
+}
+
+const getWalletNetwork = (wallet: Wallet) => {
+  return bitcoinService.isNetworkName(wallet.network) ? wallet.network : 'mainnet';
+};
+
+export const feeBumpService = {
+  /**
+   * Whether a transaction can be replaced with a higher fee: broadcast, still unconfirmed, and not already being replaced
+   */
+  canBumpFee(transaction: Transaction, transactions: Transaction[]): boolean {
+    return transaction.is_broadcast &&
+      transaction.broadcast_status === 'unconfirmed' &&
+      !transactions.some(tx => tx.replaces_transaction_id === transaction.id && !tx.is_broadcast);
+  },
+
+  /**
+   * Fee rate a transaction pays, in sat/vbyte of its signed size
+   */
+  getFeeRate(transaction: Transaction): number {
+    if (!transaction.signed_transaction) return 0;
+    return transaction.fee_satoshis / bitcoin.Transaction.fromHex(transaction.signed_transaction).virtualSize();
+  },
+
+  /**
+   * Lowest fee rate a replacement of the transaction can pay and still be relayed
+   */
+  getMinimumFeeRate(transaction: Transaction): number {
+    return Math.ceil((this.getFeeRate(transaction) + INCREMENTAL_RELAY_FEE) * 10) / 10;
+  },
+
+  /**
+   * Wallet coins paid by transactions that have not confirmed yet, which a child transaction can spend
+   */
+  getCpfpCandidates(utxos: Utxo[]): Utxo[] {
+    return utxos.filter(utxo => utxo.confirmation_height === null && !utxo.spent_by_txid && !utxo.locked_by);
+  },
+
+  /**
+   * Work out the fee a child spending `utxo` must pay so that it and its unconfirmed parent reach `targetFeeRate` together
+   */
+  async getCpfpPlan(wallet: Wallet, utxo: Utxo, targetFeeRate: number): Promise<CpfpPlan> {
+    if (!Number.isFinite(targetFeeRate) || targetFeeRate <= 0) {
+      throw new Error('Target fee rate must be greater than 0 sat/vB');
+    }
+
+    const backend = await chainBackendService.getBackend(getWalletNetwork(wallet));
+    const parent = await backend.getTransaction(utxo.txid);
+    if (!parent) {
+      throw new Error(`Parent transaction ${utxo.txid} was not found`);
+    }
+    if (parent.height !== null) {
+      await walletService.updateUtxo(utxo.id, { confirmation_height: parent.height });
+      throw new Error(`Parent transaction already confirmed in block ${parent.height}`);
+    }
+
+    // The parent's fee is what its inputs held minus what it pays out
+    const parentTx = bitcoin.Transaction.fromHex(parent.hex);
+    let inputValue = 0;
+    for (const input of parentTx.ins) {
+      const previousTxid = Buffer.from(input.hash).reverse().toString('hex');
+      const previous = await backend.getTransaction(previousTxid);
+      if (!previous) {
+        throw new Error(`Could not look up parent input ${previousTxid}:${input.index} to compute the parent's fee`);
+      }
+      inputValue += bitcoin.Transaction.fromHex(previous.hex).outs[input.index].value;
+    }
+    const parentFee = inputValue - parentTx.outs.reduce((total, output) => total + output.value, 0);
+    const parentVsize = parentTx.virtualSize();
+
+    if (parentFee / parentVsize >= targetFeeRate) {
+      throw new Error(`The parent already pays ${(parentFee / parentVsize).toFixed(1)} sat/vB`);
+    }
+
+    // The child spends the coin back to a wallet address
+    const scriptType = bitcoinService.getMultisigOptions(wallet).scriptType;
+    const childVsize = bitcoinService.estimateVsize({
+      scriptType,
+      m: wallet.m,
+      n: wallet.n,
+      inputCount: 1,
+      outputTypes: [bitcoinService.getMultisigOutputType(scriptType)]
+    });
+    const childFee = Math.max(
+      Math.ceil(targetFeeRate * (parentVsize + childVsize)) - parentFee,
+      Math.ceil(childVsize * INCREMENTAL_RELAY_FEE)
+    );
+
+    if (utxo.value_satoshis - childFee < DUST_THRESHOLD) {
+      throw new Error(`This coin is too small to pay the ${childFee} sat child fee`);
+    }
+
+    return {
+      parentTxid: utxo.txid,
+      parentHex: parent.hex,
+      parentVsize,
+      parentFee,
+      childVsize,
+      childFee,
+      packageFeeRate: (parentFee + childFee) / (parentVsize + childVsize)
+    };
+  },
+
+  /**
+   * Create a signing proposal for a child transaction spending `utxo` to a fresh wallet address with the planned fee
+   */
+  async createChildPaysForParent(wallet: Wallet, walletKeys: WalletKey[], utxo: Utxo, plan: CpfpPlan): Promise<{ transaction: Transaction; wallet: Wallet }> {
+    const walletAddresses = wallet.is_hd ? await walletService.getWalletAddresses(wallet.id) : [];
+    const input = psbtService.getUtxoInput(wallet, utxo, walletAddresses, plan.parentHex);
+    const value = utxo.value_satoshis - plan.childFee;
+    const { change, wallet: updatedWallet } = await psbtService.getChangeOutput(wallet, walletKeys, value);
+
+    const psbt = psbtService.buildPsbt({ wallet: updatedWallet, walletKeys, inputs: [input], outputs: [], change });
+
+    const transaction = await walletService.createTransaction({
+      wallet_id: wallet.id,
+      to_address: change.address,
+      amount_satoshis: value,
+      fee_satoshis: plan.childFee,
+      raw_transaction: psbt.toBase64(),
+      required_signatures: wallet.m,
+      signatures: [],
+      is_complete: false,
+      is_broadcast: false,
+      parent_txid: plan.parentTxid
+    });
+
+    try {
+      await walletService.lockUtxos([utxo.id], transaction.id);
+    } catch (error) {
+      await walletService.cancelTransaction(transaction.id);
+      throw error;
+    }
+
+    return { transaction, wallet: updatedWallet };
+  },
+
+  /**
+   * Build a BIP125 replacement PSBT spending the same inputs at a higher fee rate, taking the extra fee from change
+   * and adding confirmed coins if change cannot cover it. The replacement is saved as a new proposal for signing.
+   */
+  async bumpFee(wallet: Wallet, walletKeys: WalletKey[], transaction: Transaction, feeRate: number): Promise<Transaction> {
+    if (!transaction.raw_transaction || !transaction.signed_transaction) {
+      throw new Error('Only broadcast transactions can be fee bumped');
+    }
+    if (!Number.isFinite(feeRate) || feeRate < this.getMinimumFeeRate(transaction)) {
+      throw new Error(`The replacement must pay at least ${this.getMinimumFeeRate(transaction)} sat/vB`);
+    }
+
+    const scriptType = bitcoinService.getMultisigOptions(wallet).scriptType;
+    const walletNetwork = getWalletNetwork(wallet);
+    const original = psbtService.getPsbtSpend(psbtService.fromBase64(transaction.raw_transaction, wallet));
+    const paid = original.outputs.reduce((total, output) => total + output.value, 0);
+    const outputTypes = original.outputs.map(output => bitcoinService.getOutputType(output.address, walletNetwork));
+    const changeType = bitcoinService.getMultisigOutputType(scriptType);
+
+    // The replacement must beat both the new rate and the old fee plus relay of its own size
+    const getRequiredFee = (inputCount: number, withChange: boolean) => {
+      const vsize = bitcoinService.estimateVsize({
+        scriptType,
+        m: wallet.m,
+        n: wallet.n,
+        inputCount,
+        outputTypes: withChange ? [...outputTypes, changeType] : outputTypes
+      });
+      return Math.max(Math.ceil(vsize * feeRate), transaction.fee_satoshis + Math.ceil(vsize * INCREMENTAL_RELAY_FEE));
+    };
+
+    // BIP125 forbids new unconfirmed inputs, so only confirmed coins may be added, largest first
+    const candidates = (await walletService.getSpendableUtxos(wallet.id))
+      .filter(utxo => utxo.confirmation_height !== null)
+      .sort((a, b) => b.value_satoshis - a.value_satoshis);
+
+    const added: typeof candidates = [];
+    let total = original.inputs.reduce((sum, input) => sum + input.value, 0);
+    let changeValue = 0;
+    let fee: number;
+
+    for (;;) {
+      const inputCount = original.inputs.length + added.length;
+      const feeWithChange = getRequiredFee(inputCount, true);
+      if (total - paid - feeWithChange >= DUST_THRESHOLD) {
+        changeValue = total - paid - feeWithChange;
+        fee = feeWithChange;
+        break;
+      }
+      if (total - paid >= getRequiredFee(inputCount, false)) {
+        fee = total - paid;
+        break;
+      }
+
+      const next = candidates.shift();
+      if (!next) {
+        throw new Error(`Not enough confirmed coins to pay ${feeRate} sat/vB`);
+      }
+      added.push(next);
+      total += next.value_satoshis;
+    }
+
+    const walletAddresses = wallet.is_hd ? await walletService.getWalletAddresses(wallet.id) : [];
+    const addedInputs: PsbtInput[] = added.map(utxo => psbtService.getUtxoInput(wallet, utxo, walletAddresses));
+
+    // Legacy P2SH inputs sign over the full funding transaction
+    if (scriptType === 'p2sh' && addedInputs.length > 0) {
+      const backend = await chainBackendService.getBackend(walletNetwork);
+      for (const input of addedInputs) {
+        const previousTx = await backend.getTransaction(input.txid);
+        if (!previousTx) {
+          throw new Error(`Funding transaction ${input.txid} was not found`);
+        }
+        input.previousTxHex = previousTx.hex;
+      }
+    }
+
+    // Keep the original change address; a new one is only issued if the original spend had no change
+    let change: PsbtChangeOutput | null = null;
+    if (changeValue > 0) {
+      if (original.change) {
+        change = { ...original.change, value: changeValue };
+      } else {
+        change = (await psbtService.getChangeOutput(wallet, walletKeys, changeValue)).change;
+      }
+    }
+
+    const psbt = psbtService.buildPsbt({
+      wallet,
+      walletKeys,
+      inputs: [...original.inputs, ...addedInputs],
+      outputs: original.outputs,
+      change
+    });
+
+    const replacement = await walletService.createTransaction({
+      wallet_id: wallet.id,
+      to_address: transaction.to_address,
+      amount_satoshis: transaction.amount_satoshis,
+      fee_satoshis: fee,
+      raw_transaction: psbt.toBase64(),
+      required_signatures: wallet.m,
+      signatures: [],
+      is_complete: false,
+      is_broadcast: false,
+      replaces_transaction_id: transaction.id
+    });
+
+    // Keep the original's payees and labels. Its inputs are already spent by it; only the added coins need reserving
+    try {
+      const payees = await walletService.getTransactionOutputs([transaction.id]);
+      await walletService.addTransactionOutputs(payees.map(payee => ({
+        transaction_id: replacement.id,
+        output_index: payee.output_index,
+        address: payee.address,
+        amount_satoshis: payee.amount_satoshis,
+        label: payee.label
+      })));
+
+      if (added.length > 0) {
+        await walletService.lockUtxos(added.map(utxo => utxo.id), replacement.id);
+      }
+    } catch (error) {
+      await walletService.cancelTransaction(replacement.id);
+      throw error;
+    }
+
+    return replacement;
+  }
+};
@@ -0,0 +1,289 @@
+import * as ecc from 'tiny-secp256k1';
+import { BIP32Factory, type BIP32Interface } from 'bip32';
+import bs58check from 'bs58check';
+import * as bip39 from 'bip39';
+import { bitcoinService, type MultisigOptions, type NetworkName, type ScriptType } from '@/services/bitcoinService';
+import { walletService, type Wallet, type WalletKey } from '@/services/walletService';
+
+const bip32 = BIP32Factory(ecc);
+
+export const RECEIVE_CHAIN = 0;
+export const CHANGE_CHAIN = 1;
+
+export type AddressChain = typeof RECEIVE_CHAIN | typeof CHANGE_CHAIN;
+
+export const MNEMONIC_LENGTHS = [12, 24] as const;
+
+export type MnemonicLength = typeof MNEMONIC_LENGTHS[number];
+
+export interface ExtendedKeyInfo {
+  xpub: string;
+  masterFingerprint: string;
+  derivationPath: string;
+}
+
+export interface DerivedAddress {
+  chain: AddressChain;
+  index: number;
+  address: string;
+  scriptHex: string;
+  outputScriptHex: string;
+  publicKeys: string[];
+}
+
+// Extended public key version bytes, including the SLIP-132 variants other wallets export
+const PUBLIC_VERSIONS: Record<string, { name: string; mainnet: boolean }> = {
+  '0488b21e': { name: 'xpub', mainnet: true },
+  '049d7cb2': { name: 'ypub', mainnet: true },
+  '04b24746': { name: 'zpub', mainnet: true },
+  '0295b43f': { name: 'Ypub', mainnet: true },
+  '02aa7ed3': { name: 'Zpub', mainnet: true },
+  '043587cf': { name: 'tpub', mainnet: false },
+  '044a5262': { name: 'upub', mainnet: false },
+  '045f1cf6': { name: 'vpub', mainnet: false },
+  '024289ef': { name: 'Upub', mainnet: false },
+  '02575483': { name: 'Vpub', mainnet: false }
+};
+
+const PRIVATE_VERSIONS = ['0488ade4', '049d7878', '04b2430c', '0295b005', '02aa7a99', '04358394', '044a4e28', '045f18bc', '024285b5', '02575048'];
+
+export const hdWalletService = {
+  /**
+   * Parse an extended public key for the given network, accepting SLIP-132 (ypub/zpub/Zpub...) encodings
+   */
+  parseExtendedKey(extendedKey: string, networkName: NetworkName = 'mainnet'): BIP32Interface {
+    let payload: Uint8Array;
+    try {
+      payload = bs58check.decode(extendedKey.trim());
+    } catch (error) {
+      throw new Error('Invalid extended public key: bad base58 checksum');
+    }
+
+    if (payload.length !== 78) {
+      throw new Error('Invalid extended public key: unexpected length');
+    }
+
+    const versionHex = Buffer.from(payload.slice(0, 4)).toString('hex');
+    if (PRIVATE_VERSIONS.includes(versionHex)) {
+      throw new Error('Extended private keys must never be shared. Please enter the extended public key');
+    }
+
+    const version = PUBLIC_VERSIONS[versionHex];
+    if (!version) {
+      throw new Error('Invalid extended public key: unknown version bytes');
+    }
+
+    if (version.mainnet !== (networkName === 'mainnet')) {
+      throw new Error(`A ${version.name} key cannot be used on ${bitcoinService.getNetworkLabel(networkName)}`);
+    }
+
+    // Re-encode with the standard xpub/tpub version so bip32 can read it
+    const network = bitcoinService.getNetwork(networkName);
+    const normalized = Buffer.from(payload);
+    normalized.writeUInt32BE(network.bip32.public, 0);
+
+    return bip32.fromBase58(bs58check.encode(normalized), network);
+  },
+
+  /**
+   * Parse an account extended private key (xprv/tprv) for the given network
+   */
+  parseExtendedPrivateKey(extendedKey: string, networkName: NetworkName = 'mainnet'): BIP32Interface {
+    const network = bitcoinService.getNetwork(networkName);
+    let node: BIP32Interface;
+    try {
+      node = bip32.fromBase58(extendedKey.trim(), network);
+    } catch (error) {
+      throw new Error(`Invalid extended private key for ${bitcoinService.getNetworkLabel(networkName)}`);
+    }
+
+    if (node.isNeutered()) {
+      throw new Error('Expected an extended private key, got an extended public key');
+    }
+    return node;
+  },
+
+  /**
+   * Normalize an extended public key to its plain xpub/tpub encoding
+   */
+  normalizeExtendedKey(extendedKey: string, networkName: NetworkName = 'mainnet'): string {
+    return this.parseExtendedKey(extendedKey, networkName).toBase58();
+  },
+
+  /**
+   * Validate a master key fingerprint (4 bytes, hex encoded)
+   */
+  isValidFingerprint(fingerprint: string): boolean {
+    return /^[0-9a-f]{8}$/i.test(fingerprint.trim());
+  },
+
+  /**
+   * Validate a BIP32 derivation path such as m/48'/0'/0'/2'
+   */
+  isValidDerivationPath(path: string): boolean {
+    return /^m(\/\d+['h]?)*$/.test(path.trim());
+  },
+
+  /**
+   * Normalize a derivation path to use ' for hardened steps
+   */
+  normalizeDerivationPath(path: string): string {
+    return path.trim().replace(/h/g, "'");
+  },
+
+  /**
+   * Get the standard account derivation path for a multisig script type:
+   * BIP48 for SegWit wallets and BIP45 for legacy P2SH
+   */
+  getDefaultDerivationPath(scriptType: ScriptType, networkName: NetworkName = 'mainnet', account = 0): string {
+    const coinType = networkName === 'mainnet' ? 0 : 1;
+    switch (scriptType) {
+      case 'p2wsh':
+        return `m/48'/${coinType}'/${account}'/2'`;
+      case 'p2sh-p2wsh':
+        return `m/48'/${coinType}'/${account}'/1'`;
+      case 'p2sh':
+        return "m/45'";
+      default:
+        throw new Error(`Unsupported script type: ${scriptType}`);
+    }
+  },
+
+  /**
+   * Generate a new BIP39 mnemonic of 12 or 24 words for a co-signer to write down
+   */
+  generateMnemonic(wordCount: MnemonicLength = 24): string {
+    return bip39.generateMnemonic(wordCount === 12 ? 128 : 256);
+  },
+
+  /**
+   * Normalize a mnemonic's case and spacing and check its words and checksum, explaining what is wrong if it is invalid
+   */
+  parseMnemonic(mnemonic: string): string {
+    const words = mnemonic.trim().toLowerCase().split(/\s+/).filter(Boolean);
+    if (![12, 15, 18, 21, 24].includes(words.length)) {
+      throw new Error(`Mnemonics have 12, 15, 18, 21 or 24 words, got ${words.length}`);
+    }
+
+    const unknownWords = words.filter(word => !bip39.wordlists.english.includes(word));
+    if (unknownWords.length > 0) {
+      throw new Error(`Not in the BIP39 word list: ${unknownWords.join(', ')}`);
+    }
+
+    const normalized = words.join(' ');
+    if (!bip39.validateMnemonic(normalized)) {
+      throw new Error('Checksum does not match: check the order and spelling of the words');
+    }
+    return normalized;
+  },
+
+  /**
+   * Derive a co-signer's account key from a BIP39 mnemonic and optional passphrase at the standard multisig path.
+   * Returns the account xprv so it can be backed up; a different passphrase yields a different, equally valid key.
+   */
+  deriveMnemonicKey(mnemonic: string, passphrase: string, scriptType: ScriptType, networkName: NetworkName = 'mainnet'): ExtendedKeyInfo & { xprv: string } {
+    const network = bitcoinService.getNetwork(networkName);
+    const seed = bip39.mnemonicToSeedSync(this.parseMnemonic(mnemonic), passphrase);
+    const root = bip32.fromSeed(seed, network);
+    const derivationPath = this.getDefaultDerivationPath(scriptType, networkName);
+    const account = root.derivePath(derivationPath);
+
+    return {
+      xprv: account.toBase58(),
+      xpub: account.neutered().toBase58(),
+      masterFingerprint: root.fingerprint.toString('hex'),
+      derivationPath
+    };
+  },
+
+  /**
+   * Derive a co-signer's child public key at /chain/index below their account xpub
+   */
+  deriveChildPublicKey(xpub: string, chain: AddressChain, index: number, networkName: NetworkName = 'mainnet'): string {
+    return this.parseExtendedKey(xpub, networkName).derive(chain).derive(index).publicKey.toString('hex');
+  },
+
+  /**
+   * Get the full origin path of a derived key, e.g. m/48'/0'/0'/2'/0/5
+   */
+  getChildPath(key: ExtendedKeyInfo, chain: AddressChain, index: number): string {
+    return `${this.normalizeDerivationPath(key.derivationPath)}/${chain}/${index}`;
+  },
+
+  /**
+   * Derive the multisig address at /chain/index from all co-signer xpubs
+   */
+  deriveMultisigAddress(
+    m: number,
+    keys: ExtendedKeyInfo[],
+    chain: AddressChain,
+    index: number,
+    options: MultisigOptions = {}
+  ): DerivedAddress | null {
+    try {
+      const publicKeys = keys.map(key => this.deriveChildPublicKey(key.xpub, chain, index, options.network));
+      const multisig = bitcoinService.createMultisigAddress(m, publicKeys, options);
+
+      if (!multisig) {
+        throw new Error(`Failed to derive address ${chain}/${index}`);
+      }
+
+      return { chain, index, publicKeys, ...multisig };
+    } catch (error) {
+      console.error('Error deriving multisig address:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Read the extended key details stored on wallet key rows
+   */
+  getExtendedKeys(walletKeys: Array<{ xpub: string | null; master_fingerprint: string | null; derivation_path: string | null }>): ExtendedKeyInfo[] {
+    return walletKeys.map(key => {
+      if (!key.xpub || !key.master_fingerprint || !key.derivation_path) {
+        throw new Error('Wallet key is missing its extended public key details');
+      }
+      return {
+        xpub: key.xpub,
+        masterFingerprint: key.master_fingerprint,
+        derivationPath: key.derivation_path
+      };
+    });
+  },
+
+  /**
+   * Derive the wallet's next address on a chain, store it in the address index and advance the chain's counter.
+   * New receive addresses also become the wallet's current address.
+   */
+  async issueNextAddress(wallet: Wallet, walletKeys: WalletKey[], chain: AddressChain) {
+    const index = chain === RECEIVE_CHAIN ? wallet.next_receive_index : wallet.next_change_index;
+    const derived = this.deriveMultisigAddress(
+      wallet.m,
+      this.getExtendedKeys(walletKeys),
+      chain,
+      index,
+      bitcoinService.getMultisigOptions(wallet)
+    );
+
+    if (!derived) {
+      throw new Error(`Failed to derive address ${chain}/${index}`);
+    }
+
+    const address = await walletService.addWalletAddress({
+      wallet_id: wallet.id,
+      chain,
+      address_index: index,
+      address: derived.address,
+      script_hex: derived.scriptHex
+    });
+
+    const updatedWallet = await walletService.updateWallet(
+      wallet.id,
+      chain === RECEIVE_CHAIN
+        ? { next_receive_index: index + 1, address: derived.address, script_hex: derived.scriptHex }
+        : { next_change_index: index + 1 }
+    );
+
+    return { wallet: updatedWallet, address };
+  }
+};
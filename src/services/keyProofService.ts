@@ -0,0 +1,142 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import CryptoJS from 'crypto-js';
+import { signerService } from '@/services/signerService';
+
+export type KeyProofMethod = 'signmessage' | 'bip322';
+
+export const KEY_PROOF_METHODS: Array<{ value: KeyProofMethod; label: string }> = [
+  { value: 'signmessage', label: 'Signed message' },
+  { value: 'bip322', label: 'BIP322' }
+];
+
+// Verification method recorded for keys added by a wallet import, which joined without a proof
+export const IMPORTED_KEY_METHOD = 'imported';
+
+const BIP322_TAG = 'BIP0322-signed-message';
+
+const taggedHash = (tag: string, data: Buffer): Buffer => {
+  const tagHash = bitcoin.crypto.sha256(Buffer.from(tag, 'utf8'));
+  return bitcoin.crypto.sha256(Buffer.concat([tagHash, tagHash, data]));
+};
+
+/**
+ * Decode a serialized witness stack, as BIP322 simple signatures are encoded
+ */
+const decodeWitness = (data: Buffer): Buffer[] => {
+  let offset = 0;
+  const readVarInt = (): number => {
+    const first = data[offset++];
+    if (first === undefined) throw new Error('Signature ends early');
+    if (first < 0xfd) return first;
+    const size = first === 0xfd ? 2 : first === 0xfe ? 4 : 8;
+    if (size === 8 || offset + size > data.length) throw new Error('Signature has an invalid length');
+    const value = size === 2 ? data.readUInt16LE(offset) : data.readUInt32LE(offset);
+    offset += size;
+    return value;
+  };
+
+  const items: Buffer[] = [];
+  const count = readVarInt();
+  for (let i = 0; i < count; i++) {
+    const length = readVarInt();
+    if (offset + length > data.length) throw new Error('Signature ends early');
+    items.push(data.subarray(offset, offset + length));
+    offset += length;
+  }
+  if (offset !== data.length) {
+    throw new Error('Signature has trailing data');
+  }
+  return items;
+};
+
+/**
+ * Verify a BIP322 simple signature of a message by the P2WPKH address of a public key
+ */
+const verifyBip322 = (message: string, witness: Buffer[], publicKey: Buffer): boolean => {
+  if (witness.length !== 2 || !witness[1].equals(publicKey)) return false;
+
+  const { output } = bitcoin.payments.p2wpkh({ pubkey: publicKey });
+  const { output: scriptCode } = bitcoin.payments.p2pkh({ pubkey: publicKey });
+  if (!output || !scriptCode) return false;
+
+  // The virtual transaction that "pays" the address, committing to the message
+  const toSpend = new bitcoin.Transaction();
+  toSpend.version = 0;
+  toSpend.addInput(Buffer.alloc(32), 0xffffffff, 0, bitcoin.script.compile([
+    bitcoin.opcodes.OP_0,
+    taggedHash(BIP322_TAG, Buffer.from(message, 'utf8'))
+  ]));
+  toSpend.addOutput(output, 0);
+
+  // The virtual transaction whose signature proves the address could spend it
+  const toSign = new bitcoin.Transaction();
+  toSign.version = 0;
+  toSign.addInput(toSpend.getHash(), 0, 0);
+  toSign.addOutput(bitcoin.script.compile([bitcoin.opcodes.OP_RETURN]), 0);
+
+  let decoded;
+  try {
+    decoded = bitcoin.script.signature.decode(witness[0]);
+  } catch (error) {
+    return false;
+  }
+  const { signature, hashType } = decoded;
+  if (hashType !== bitcoin.Transaction.SIGHASH_ALL) return false;
+  return ecc.verify(toSign.hashForWitnessV0(0, scriptCode, 0, hashType), publicKey, signature);
+};
+
+export const keyProofService = {
+  /**
+   * Create a random single-line challenge bound to a wallet, for a co-signer to sign with the key they are adding
+   */
+  createChallenge(walletId: string): string {
+    return `BTCMultisig key proof for wallet ${walletId}: ${CryptoJS.lib.WordArray.random(128 / 8).toString()}`;
+  },
+
+  /**
+   * Get the display label for a proof method
+   */
+  getProofMethodLabel(method: string): string {
+    return KEY_PROOF_METHODS.find(proof => proof.value === method)?.label || method;
+  },
+
+  /**
+   * Describe how a wallet key was verified, flagging keys that joined without a proof
+   */
+  getVerificationLabel(verificationMethod: string | null): string {
+    if (verificationMethod === IMPORTED_KEY_METHOD) return 'unverified (imported)';
+    if (!verificationMethod) return 'unverified';
+    return `verified by ${this.getProofMethodLabel(verificationMethod).toLowerCase()}`;
+  },
+
+  /**
+   * Verify a base64 signature of the challenge by a hex public key, accepting legacy signmessage (BIP137) signatures
+   * and BIP322 simple signatures from the key's P2WPKH address. Returns the method used, or throws if it does not verify.
+   */
+  verifyProof(challenge: string, signature: string, publicKey: string): KeyProofMethod {
+    const trimmed = signature.trim();
+    if (!trimmed) {
+      throw new Error('Signature is empty');
+    }
+    if (!/^[A-Za-z0-9+/]+={0,2}$/.test(trimmed)) {
+      throw new Error('Signature is not valid base64');
+    }
+    const bytes = Buffer.from(trimmed, 'base64');
+
+    // Legacy signatures are a header byte plus a 64-byte compact signature
+    if (bytes.length === 65 && bytes[0] >= 27 && bytes[0] <= 42) {
+      if (signerService.verifyMessage(challenge, trimmed, publicKey)) return 'signmessage';
+      throw new Error('Signature does not match this key and challenge');
+    }
+
+    let witness: Buffer[];
+    try {
+      witness = decodeWitness(bytes);
+    } catch (error) {
+      throw new Error(`Not a signmessage or BIP322 signature: ${error instanceof Error ? error.message : 'unreadable'}`);
+    }
+    if (verifyBip322(challenge, witness, Buffer.from(publicKey, 'hex'))) return 'bip322';
+    throw new Error('BIP322 signature does not match this key\'s P2WPKH address and challenge');
+  }
+};
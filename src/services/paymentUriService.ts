@@ -0,0 +1,94 @@
+import { bitcoinService, type NetworkName } from '@/services/bitcoinService';
+
+export interface PaymentRequest {
+  address: string;
+  amountSatoshis?: number;
+  label?: string;
+  message?: string;
+}
+
+const URI_SCHEME = 'bitcoin:';
+
+/**
+ * Parse a BIP21 amount: decimal BTC with at most 8 places and no exponent or grouping
+ */
+const parseBtcAmount = (value: string): number | null => {
+  const match = value.match(/^(\d*)(?:\.(\d{0,8}))?$/);
+  if (!match || (!match[1] && !match[2])) return null;
+  return parseInt(match[1] || '0', 10) * 100000000 + parseInt((match[2] || '').padEnd(8, '0'), 10);
+};
+
+/**
+ * Format satoshis as a BIP21 amount, without trailing zeros
+ */
+const formatBtcAmount = (satoshis: number): string => {
+  return bitcoinService.satoshisToBtc(satoshis).replace(/\.?0+$/, '');
+};
+
+export const paymentUriService = {
+  /**
+   * Whether text looks like a BIP21 payment URI rather than a bare address
+   */
+  isPaymentUri(text: string): boolean {
+    return text.trim().toLowerCase().startsWith(URI_SCHEME);
+  },
+
+  /**
+   * Build a BIP21 `bitcoin:` URI for an address with optional amount, label and message
+   */
+  createPaymentUri({ address, amountSatoshis, label, message }: PaymentRequest): string {
+    const params: string[] = [];
+    if (amountSatoshis) params.push(`amount=${formatBtcAmount(amountSatoshis)}`);
+    if (label) params.push(`label=${encodeURIComponent(label)}`);
+    if (message) params.push(`message=${encodeURIComponent(message)}`);
+    return `${URI_SCHEME}${address}${params.length > 0 ? `?${params.join('&')}` : ''}`;
+  },
+
+  /**
+   * Parse a BIP21 URI and validate its address against the wallet's network. Rejects URIs with unknown
+   * required ("req-") parameters, malformed amounts, or the same parameter given twice.
+   */
+  parsePaymentUri(uri: string, networkName: NetworkName = 'mainnet'): PaymentRequest {
+    const trimmed = uri.trim();
+    if (!this.isPaymentUri(trimmed)) {
+      throw new Error('Not a bitcoin: payment URI');
+    }
+
+    const rest = trimmed.slice(URI_SCHEME.length);
+    const queryStart = rest.indexOf('?');
+    const path = queryStart === -1 ? rest : rest.slice(0, queryStart);
+    const query = queryStart === -1 ? '' : rest.slice(queryStart + 1);
+    // Older wallets write bitcoin://address
+    const address = bitcoinService.parseAddress(decodeURIComponent(path.replace(/^\/\//, '')), networkName).address;
+    const request: PaymentRequest = { address };
+    const seen = new Set<string>();
+
+    for (const pair of query.split('&').filter(Boolean)) {
+      const separator = pair.indexOf('=');
+      const key = decodeURIComponent(separator === -1 ? pair : pair.slice(0, separator)).toLowerCase();
+      const value = separator === -1 ? '' : decodeURIComponent(pair.slice(separator + 1));
+
+      if (seen.has(key)) {
+        throw new Error(`Payment URI sets "${key}" more than once`);
+      }
+      seen.add(key);
+
+      if (key === 'amount') {
+        const amountSatoshis = parseBtcAmount(value);
+        if (amountSatoshis === null) {
+          throw new Error(`Invalid amount "${value}" in payment URI`);
+        }
+        request.amountSatoshis = amountSatoshis;
+      } else if (key === 'label') {
+        request.label = value;
+      } else if (key === 'message') {
+        request.message = value;
+      } else if (key.startsWith('req-')) {
+        // BIP21: a required parameter the wallet does not understand makes the whole URI invalid
+        throw new Error(`Payment URI requires "${key.slice(4)}", which this wallet does not support`);
+      }
+    }
+
+    return request;
+  }
+};
@@ -0,0 +1,140 @@
+import { bitcoinService, type NetworkName } from '@/services/bitcoinService';
+import { DUST_THRESHOLD } from '@/services/psbtService';
+
+export type AmountUnit = 'btc' | 'sats';
+
+export interface PayoutRow {
+  // 1-based line number in the file, for error reports
+  line: number;
+  address: string;
+  amountSatoshis: number | null;
+  label: string;
+  errors: string[];
+}
+
+export interface PayoutImport {
+  rows: PayoutRow[];
+  validRows: PayoutRow[];
+  totalSatoshis: number;
+  // Set when the valid rows add up to more than the wallet can spend
+  balanceError: string | null;
+}
+
+/**
+ * Split CSV text into rows of fields, honouring double-quoted fields with embedded commas, quotes and newlines
+ */
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Parse an amount in the given unit, or the unit written after it ("0.5 BTC", "25000 sats"), to satoshis
+ */
+const parseAmount = (value: string, defaultUnit: AmountUnit): number | null => {
+  const match = value.trim().replace(/_/g, '').match(/^(\d+(?:\.\d+)?)\s*(btc|sats?|satoshis?)?$/i);
+  if (!match) return null;
+
+  const unit: AmountUnit = match[2] ? (match[2].toLowerCase() === 'btc' ? 'btc' : 'sats') : defaultUnit;
+  if (unit === 'sats') {
+    return /^\d+$/.test(match[1]) ? parseInt(match[1], 10) : null;
+  }
+
+  // Convert BTC from the decimal string so no precision is lost beyond the 8 places a satoshi allows
+  const [whole, fraction = ''] = match[1].split('.');
+  if (fraction.length > 8) return null;
+  return parseInt(whole, 10) * 100000000 + parseInt(fraction.padEnd(8, '0'), 10);
+};
+
+export const payoutCsvService = {
+  /**
+   * Parse and validate a payout CSV of address, amount and optional label against a wallet's network and spendable balance.
+   * A header row is detected and skipped; an "amount_sats" or "sats" amount header switches the default unit to satoshis.
+   */
+  parsePayoutCsv(text: string, networkName: NetworkName, spendableSatoshis: number, unit: AmountUnit = 'btc'): PayoutImport {
+    const lines = parseCsv(text);
+    const rows: PayoutRow[] = [];
+    const seen = new Map<string, number>();
+    let defaultUnit = unit;
+
+    lines.forEach((fields, i) => {
+      const [address = '', amount = '', ...label] = fields.map(field => field.trim());
+      if (!address && !amount) return;
+
+      // Headers name their columns instead of holding an address
+      if (i === 0 && /address/i.test(address) && !bitcoinService.isValidAddress(address, networkName)) {
+        if (/sat/i.test(amount)) defaultUnit = 'sats';
+        if (/btc/i.test(amount)) defaultUnit = 'btc';
+        return;
+      }
+
+      const errors: string[] = [];
+      const amountSatoshis = parseAmount(amount, defaultUnit);
+
+      let canonical = address;
+      try {
+        canonical = bitcoinService.parseAddress(address, networkName).address;
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : 'Invalid address');
+      }
+      if (amountSatoshis === null) {
+        errors.push(`Invalid amount "${amount}"`);
+      } else if (amountSatoshis < DUST_THRESHOLD) {
+        errors.push(`Amount is below the ${DUST_THRESHOLD} sat dust limit`);
+      }
+
+      const duplicateOf = seen.get(canonical);
+      if (duplicateOf !== undefined) {
+        errors.push(`Duplicate of line ${duplicateOf}`);
+      } else if (canonical) {
+        seen.set(canonical, i + 1);
+      }
+
+      rows.push({ line: i + 1, address: canonical, amountSatoshis, label: label.join(',').trim(), errors });
+    });
+
+    const validRows = rows.filter(row => row.errors.length === 0);
+    const totalSatoshis = validRows.reduce((total, row) => total + (row.amountSatoshis || 0), 0);
+    const balanceError = totalSatoshis > spendableSatoshis
+      ? `Total ${bitcoinService.satoshisToBtc(totalSatoshis)} BTC exceeds the spendable balance of ${bitcoinService.satoshisToBtc(spendableSatoshis)} BTC, before fees`
+      : null;
+
+    return { rows, validRows, totalSatoshis, balanceError };
+  }
+};
@@ -0,0 +1,491 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import bs58check from 'bs58check';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { bitcoinService } from '@/services/bitcoinService';
+import { hdWalletService, CHANGE_CHAIN, type AddressChain } from '@/services/hdWalletService';
+import { type Wallet, type WalletKey, type WalletAddress, type Utxo } from '@/services/walletService';
+
+export interface PsbtInput {
+  txid: string;
+  vout: number;
+  value: number;
+  scriptHex: string;
+  previousTxHex?: string;
+  chain?: AddressChain;
+  index?: number;
+}
+
+// A wallet-owned output found in a funding transaction
+export interface WalletOutput extends PsbtInput {
+  address: string;
+}
+
+export interface PsbtOutput {
+  address: string;
+  value: number;
+}
+
+export interface PsbtChangeOutput extends PsbtOutput {
+  scriptHex: string;
+  chain?: AddressChain;
+  index?: number;
+}
+
+export interface BuildPsbtParams {
+  wallet: Wallet;
+  walletKeys: WalletKey[];
+  inputs: PsbtInput[];
+  outputs: PsbtOutput[];
+  change?: PsbtChangeOutput | null;
+}
+
+// Outputs below this value are not relayed by default, so change this small is left to the fee
+export const DUST_THRESHOLD = 546;
+
+// Every binary PSBT starts with "psbt" and 0xff (BIP174)
+const PSBT_MAGIC = Buffer.from('70736274ff', 'hex');
+
+/**
+ * BIP32 derivation entries telling each signer which of its keys signs at /chain/index
+ */
+const getBip32Derivation = (walletKeys: WalletKey[], chain: AddressChain, index: number, wallet: Wallet) => {
+  const { network } = bitcoinService.getMultisigOptions(wallet);
+  return hdWalletService.getExtendedKeys(walletKeys).map(key => ({
+    masterFingerprint: Buffer.from(key.masterFingerprint, 'hex'),
+    path: hdWalletService.getChildPath(key, chain, index),
+    pubkey: Buffer.from(hdWalletService.deriveChildPublicKey(key.xpub, chain, index, network), 'hex')
+  }));
+};
+
+/**
+ * Load a co-signer's private key material: an account xprv for HD wallets, otherwise a hex or WIF key.
+ * Throws unless it belongs to the wallet key it is meant for.
+ */
+const getSigningKey = (wallet: Wallet, walletKey: WalletKey, privateKey: string) => {
+  const { network } = bitcoinService.getMultisigOptions(wallet);
+
+  if (wallet.is_hd) {
+    const node = hdWalletService.parseExtendedPrivateKey(privateKey, network);
+    if (node.neutered().toBase58() !== walletKey.xpub) {
+      throw new Error(`Extended private key does not match the xpub of ${walletKey.owner_name || 'this key'}`);
+    }
+    return node;
+  }
+
+  const keyPair = bitcoinService.getKeyPair(privateKey, network);
+  if (Buffer.from(keyPair.publicKey).toString('hex') !== walletKey.public_key.toLowerCase()) {
+    throw new Error(`Private key does not match the public key of ${walletKey.owner_name || 'this key'}`);
+  }
+  return keyPair;
+};
+
+/**
+ * The public key each wallet key signs an input with: its own key, or the child key named in the input's BIP32 derivation
+ */
+const getInputSigningPubkey = (input: bitcoin.Psbt['data']['inputs'][number], wallet: Wallet, walletKey: WalletKey): Buffer | undefined => {
+  if (!wallet.is_hd) {
+    return Buffer.from(walletKey.public_key, 'hex');
+  }
+
+  const accountPath = `${hdWalletService.normalizeDerivationPath(walletKey.derivation_path || '')}/`;
+  return input.bip32Derivation?.find(d =>
+    d.masterFingerprint.toString('hex') === walletKey.master_fingerprint &&
+    d.path.startsWith(accountPath)
+  )?.pubkey;
+};
+
+const validateSignature = (pubkey: Buffer, msghash: Buffer, signature: Buffer): boolean => {
+  return ecc.verify(msghash, pubkey, signature);
+};
+
+export const psbtService = {
+  /**
+   * Find every output of a funding transaction that pays to the wallet, as PSBT inputs
+   */
+  resolveWalletInputs(wallet: Wallet, walletAddresses: WalletAddress[], previousTxHex: string): WalletOutput[] {
+    const { scriptType, network } = bitcoinService.getMultisigOptions(wallet);
+    const previousTx = bitcoin.Transaction.fromHex(previousTxHex.trim());
+
+    // Legacy wallets have a single script; HD wallets have one per derived address
+    const candidates = wallet.is_hd
+      ? walletAddresses.map(a => ({ address: a.address, scriptHex: a.script_hex, chain: a.chain as AddressChain, index: a.address_index }))
+      : [{ address: wallet.address || '', scriptHex: wallet.script_hex || '', chain: undefined, index: undefined }];
+
+    const inputs: WalletOutput[] = [];
+    previousTx.outs.forEach((output, vout) => {
+      const match = candidates.find(candidate =>
+        candidate.scriptHex &&
+        bitcoinService.getSpendScripts(candidate.scriptHex, scriptType, network).outputScript.equals(output.script)
+      );
+
+      if (match) {
+        inputs.push({
+          txid: previousTx.getId(),
+          vout,
+          value: output.value,
+          address: match.address,
+          scriptHex: match.scriptHex,
+          previousTxHex: previousTxHex.trim(),
+          chain: match.chain,
+          index: match.index
+        });
+      }
+    });
+
+    return inputs;
+  },
+
+  /**
+   * Turn a stored utxo into a PSBT input, looking up its HD derivation from the address index
+   */
+  getUtxoInput(wallet: Wallet, utxo: Utxo, walletAddresses: WalletAddress[], previousTxHex?: string): PsbtInput {
+    const walletAddress = wallet.is_hd ? walletAddresses.find(a => a.address === utxo.address) : undefined;
+
+    if (wallet.is_hd && !walletAddress) {
+      throw new Error(`Coin ${utxo.txid}:${utxo.vout} pays to ${utxo.address}, which is not in the address index`);
+    }
+
+    return {
+      txid: utxo.txid,
+      vout: utxo.vout,
+      value: utxo.value_satoshis,
+      scriptHex: utxo.script_hex,
+      previousTxHex,
+      chain: walletAddress?.chain as AddressChain | undefined,
+      index: walletAddress?.address_index
+    };
+  },
+
+  /**
+   * Get the change output for a spend: a fresh /1/i address for HD wallets, otherwise the wallet's own address.
+   * Returns the wallet as well, since issuing an HD change address advances its change index.
+   */
+  async getChangeOutput(wallet: Wallet, walletKeys: WalletKey[], value: number): Promise<{ change: PsbtChangeOutput; wallet: Wallet }> {
+    if (!wallet.is_hd) {
+      if (!wallet.address || !wallet.script_hex) {
+        throw new Error('Wallet has no address to receive change');
+      }
+      return { change: { address: wallet.address, scriptHex: wallet.script_hex, value }, wallet };
+    }
+
+    const result = await hdWalletService.issueNextAddress(wallet, walletKeys, CHANGE_CHAIN);
+    return {
+      change: {
+        address: result.address.address,
+        scriptHex: result.address.script_hex,
+        value,
+        chain: CHANGE_CHAIN,
+        index: result.address.address_index
+      },
+      wallet: result.wallet
+    };
+  },
+
+  /**
+   * Build an unsigned PSBT spending wallet inputs to the given outputs plus an optional change output back to the wallet
+   */
+  buildPsbt({ wallet, walletKeys, inputs, outputs, change }: BuildPsbtParams): bitcoin.Psbt {
+    const { scriptType, network: networkName } = bitcoinService.getMultisigOptions(wallet);
+    const network = bitcoinService.getNetwork(networkName);
+    const psbt = new bitcoin.Psbt({ network });
+
+    // Global xpubs let hardware signers verify the wallet policy
+    if (wallet.is_hd) {
+      psbt.updateGlobal({
+        globalXpub: hdWalletService.getExtendedKeys(walletKeys).map(key => ({
+          extendedPubkey: Buffer.from(bs58check.decode(key.xpub)),
+          masterFingerprint: Buffer.from(key.masterFingerprint, 'hex'),
+          path: hdWalletService.normalizeDerivationPath(key.derivationPath)
+        }))
+      });
+    }
+
+    inputs.forEach(input => {
+      const { outputScript, redeemScript, witnessScript } = bitcoinService.getSpendScripts(input.scriptHex, scriptType, networkName);
+
+      if (scriptType === 'p2sh' && !input.previousTxHex) {
+        throw new Error(`Legacy P2SH input ${input.txid}:${input.vout} needs its full previous transaction`);
+      }
+
+      psbt.addInput({
+        hash: input.txid,
+        index: input.vout,
+        // Signal opt-in replace-by-fee (BIP125)
+        sequence: 0xfffffffd,
+        ...(input.previousTxHex && { nonWitnessUtxo: Buffer.from(input.previousTxHex, 'hex') }),
+        ...(scriptType !== 'p2sh' && { witnessUtxo: { script: outputScript, value: input.value } }),
+        ...(redeemScript && { redeemScript }),
+        ...(witnessScript && { witnessScript }),
+        ...(wallet.is_hd && input.chain !== undefined && input.index !== undefined && {
+          bip32Derivation: getBip32Derivation(walletKeys, input.chain, input.index, wallet)
+        })
+      });
+    });
+
+    outputs.forEach(output => {
+      psbt.addOutput({
+        address: output.address,
+        value: output.value
+      });
+    });
+
+    if (change) {
+      const { redeemScript, witnessScript } = bitcoinService.getSpendScripts(change.scriptHex, scriptType, networkName);
+      psbt.addOutput({
+        address: change.address,
+        value: change.value,
+        ...(redeemScript && { redeemScript }),
+        ...(witnessScript && { witnessScript }),
+        ...(wallet.is_hd && change.chain !== undefined && change.index !== undefined && {
+          bip32Derivation: getBip32Derivation(walletKeys, change.chain, change.index, wallet)
+        })
+      });
+    }
+
+    return psbt;
+  },
+
+  /**
+   * Load a stored base64 PSBT using the wallet's network
+   */
+  fromBase64(psbtBase64: string, wallet: Wallet): bitcoin.Psbt {
+    const { network } = bitcoinService.getMultisigOptions(wallet);
+    return bitcoin.Psbt.fromBase64(psbtBase64.trim(), { network: bitcoinService.getNetwork(network) });
+  },
+
+  /**
+   * Load a PSBT from a signing device's file or pasted text: binary BIP174, base64 or hex
+   */
+  parsePsbt(data: string | Uint8Array, wallet: Wallet): bitcoin.Psbt {
+    const opts = { network: bitcoinService.getNetwork(bitcoinService.getMultisigOptions(wallet).network) };
+    try {
+      if (typeof data !== 'string') {
+        const buffer = Buffer.from(data);
+        // Some devices write base64 text into .psbt files instead of binary
+        if (!buffer.subarray(0, PSBT_MAGIC.length).equals(PSBT_MAGIC)) {
+          return this.parsePsbt(buffer.toString('utf8'), wallet);
+        }
+        return bitcoin.Psbt.fromBuffer(buffer, opts);
+      }
+
+      const text = data.trim();
+      if (text.toLowerCase().startsWith(PSBT_MAGIC.toString('hex'))) {
+        return bitcoin.Psbt.fromHex(text, opts);
+      }
+      return bitcoin.Psbt.fromBase64(text, opts);
+    } catch (error) {
+      throw new Error('Not a valid PSBT: expected a binary .psbt file, base64 or hex');
+    }
+  },
+
+  /**
+   * Check that a co-signer's PSBT spends exactly the proposal's inputs and pays exactly its outputs, naming the first difference
+   */
+  checkSameSpend(psbt: bitcoin.Psbt, other: bitcoin.Psbt): void {
+    const getOutpoint = (input: { hash: Buffer; index: number }) => `${Buffer.from(input.hash).reverse().toString('hex')}:${input.index}`;
+    const expectedInputs = psbt.txInputs.map(getOutpoint);
+    const actualInputs = other.txInputs.map(getOutpoint);
+
+    const missingInput = expectedInputs.find(outpoint => !actualInputs.includes(outpoint));
+    if (missingInput) {
+      throw new Error(`it does not spend input ${missingInput}`);
+    }
+    const extraInput = actualInputs.find(outpoint => !expectedInputs.includes(outpoint));
+    if (extraInput) {
+      throw new Error(`it spends ${extraInput}, which the proposal does not`);
+    }
+
+    const describeOutput = (output: { script: Buffer; value: number; address?: string }) => `${output.value} sats to ${output.address || output.script.toString('hex')}`;
+    const unmatched = [...other.txOutputs];
+    for (const output of psbt.txOutputs) {
+      const match = unmatched.findIndex(candidate => candidate.value === output.value && candidate.script.equals(output.script));
+      if (match === -1) {
+        throw new Error(`it does not pay ${describeOutput(output)}`);
+      }
+      unmatched.splice(match, 1);
+    }
+    if (unmatched.length > 0) {
+      throw new Error(`it pays ${describeOutput(unmatched[0])}, which the proposal does not`);
+    }
+
+    // Same coins and payments, but a different order, version, locktime or sequence still signs a different transaction
+    if (!other.data.globalMap.unsignedTx.toBuffer().equals(psbt.data.globalMap.unsignedTx.toBuffer())) {
+      throw new Error('it orders its inputs or outputs differently, or changes the version, locktime or sequence numbers');
+    }
+  },
+
+  /**
+   * Recover the inputs, payments and change of a PSBT built by buildPsbt, so the spend can be rebuilt
+   */
+  getPsbtSpend(psbt: bitcoin.Psbt): { inputs: PsbtInput[]; outputs: PsbtOutput[]; change: PsbtChangeOutput | null } {
+    // HD inputs and change carry their /chain/index in the BIP32 derivation path
+    const getChildIndex = (bip32Derivation?: Array<{ path: string }>) => {
+      const [chain, index] = (bip32Derivation?.[0]?.path.split('/').slice(-2) || []).map(Number);
+      return bip32Derivation?.length ? { chain: chain as AddressChain, index } : {};
+    };
+
+    const inputs = psbt.txInputs.map((txInput, i) => {
+      const input = psbt.data.inputs[i];
+      const script = input.witnessScript || input.redeemScript;
+      const value = input.witnessUtxo?.value ??
+        (input.nonWitnessUtxo && bitcoin.Transaction.fromBuffer(input.nonWitnessUtxo).outs[txInput.index].value);
+
+      if (!script || value === undefined) {
+        throw new Error(`PSBT input ${i} is missing its script or previous output`);
+      }
+
+      return {
+        txid: Buffer.from(txInput.hash).reverse().toString('hex'),
+        vout: txInput.index,
+        value,
+        scriptHex: script.toString('hex'),
+        previousTxHex: input.nonWitnessUtxo?.toString('hex'),
+        ...getChildIndex(input.bip32Derivation)
+      };
+    });
+
+    // Only the change output is given the wallet's scripts
+    let change: PsbtChangeOutput | null = null;
+    const outputs: PsbtOutput[] = [];
+    psbt.txOutputs.forEach((txOutput, i) => {
+      const output = psbt.data.outputs[i];
+      const script = output.witnessScript || output.redeemScript;
+      if (script && txOutput.address) {
+        change = { address: txOutput.address, value: txOutput.value, scriptHex: script.toString('hex'), ...getChildIndex(output.bip32Derivation) };
+      } else if (txOutput.address) {
+        outputs.push({ address: txOutput.address, value: txOutput.value });
+      }
+    });
+
+    return { inputs, outputs, change };
+  },
+
+  /**
+   * Check that private key material belongs to a wallet key before it is stored or used
+   */
+  checkPrivateKey(wallet: Wallet, walletKey: WalletKey, privateKey: string): void {
+    getSigningKey(wallet, walletKey, privateKey);
+  },
+
+  /**
+   * Add a co-signer's partial signature to every input it can sign, returning how many inputs were signed.
+   * HD wallets sign with the child key named in each input's BIP32 derivation.
+   */
+  signPsbt(psbt: bitcoin.Psbt, wallet: Wallet, walletKey: WalletKey, privateKey: string): number {
+    const signingKey = getSigningKey(wallet, walletKey, privateKey);
+    let signed = 0;
+    let alreadySigned = 0;
+
+    psbt.data.inputs.forEach((input, inputIndex) => {
+      let signer: bitcoin.Signer | undefined;
+
+      if ('derive' in signingKey) {
+        const pubkey = getInputSigningPubkey(input, wallet, walletKey);
+        const derivation = input.bip32Derivation?.find(d => pubkey && d.pubkey.equals(pubkey));
+        if (derivation) {
+          const childKey = signingKey.derivePath(derivation.path.split('/').slice(-2).join('/'));
+          if (childKey.publicKey.equals(derivation.pubkey)) {
+            signer = childKey;
+          }
+        }
+      } else if (psbt.inputHasPubkey(inputIndex, Buffer.from(signingKey.publicKey))) {
+        signer = { publicKey: Buffer.from(signingKey.publicKey), sign: hash => Buffer.from(signingKey.sign(hash)) };
+      }
+
+      if (!signer) return;
+
+      if (input.partialSig?.some(sig => sig.pubkey.equals(signer.publicKey))) {
+        alreadySigned++;
+        return;
+      }
+
+      psbt.signInput(inputIndex, signer);
+      signed++;
+    });
+
+    if (signed === 0) {
+      throw new Error(alreadySigned > 0
+        ? `${walletKey.owner_name || 'This key'} has already signed this transaction`
+        : `${walletKey.owner_name || 'This key'} does not sign any input of this transaction`);
+    }
+
+    return signed;
+  },
+
+  /**
+   * Count the co-signers who have signed: the fewest partial signatures on any input
+   */
+  getSignatureCount(psbt: bitcoin.Psbt): number {
+    if (psbt.data.inputs.length === 0) return 0;
+    return Math.min(...psbt.data.inputs.map(input => input.partialSig?.length || 0));
+  },
+
+  /**
+   * Get the ids of the wallet keys that have signed every input
+   */
+  getSignedKeyIds(psbt: bitcoin.Psbt, wallet: Wallet, walletKeys: WalletKey[]): string[] {
+    return walletKeys
+      .filter(walletKey => psbt.data.inputs.every(input => {
+        const pubkey = getInputSigningPubkey(input, wallet, walletKey);
+        return pubkey && input.partialSig?.some(sig => sig.pubkey.equals(pubkey));
+      }))
+      .map(walletKey => walletKey.id);
+  },
+
+  /**
+   * Merge co-signers' copies of a PSBT (BIP174 combiner). Every copy must spend the same inputs to the same outputs.
+   */
+  combinePsbts(psbt: bitcoin.Psbt, others: bitcoin.Psbt[]): bitcoin.Psbt {
+    others.forEach((other, i) => {
+      try {
+        this.checkSameSpend(psbt, other);
+      } catch (error) {
+        throw new Error(`PSBT ${i + 1} is for a different transaction: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+    return psbt.combine(...others);
+  },
+
+  /**
+   * Finalize every input and extract the network-serialized transaction.
+   * Each input needs valid signatures from the wallet's m co-signers.
+   */
+  finalizePsbt(psbt: bitcoin.Psbt, requiredSignatures: number): { hex: string; txid: string } {
+    psbt.data.inputs.forEach((input, inputIndex) => {
+      const count = input.partialSig?.length || 0;
+      if (count < requiredSignatures) {
+        throw new Error(`Input ${inputIndex} has ${count} of ${requiredSignatures} signatures`);
+      }
+      if (!psbt.validateSignaturesOfInput(inputIndex, validateSignature)) {
+        throw new Error(`Input ${inputIndex} has an invalid signature`);
+      }
+    });
+
+    // Finalize a copy so the stored PSBT keeps its partial signatures for export.
+    // OP_CHECKMULTISIG takes exactly m signatures, so any extra ones are dropped.
+    const finalized = psbt.clone();
+    finalized.data.inputs.forEach(input => {
+      input.partialSig = input.partialSig?.slice(0, requiredSignatures);
+    });
+    const transaction = finalized.finalizeAllInputs().extractTransaction();
+    return { hex: transaction.toHex(), txid: transaction.getId() };
+  },
+
+  /**
+   * Build the transactions row update for a PSBT: its signers, and the extracted transaction once m signatures are present
+   */
+  getTransactionUpdate(psbt: bitcoin.Psbt, wallet: Wallet, walletKeys: WalletKey[], requiredSignatures: number): TablesUpdate<'transactions'> {
+    const finalized = this.getSignatureCount(psbt) >= requiredSignatures
+      ? this.finalizePsbt(psbt, requiredSignatures)
+      : null;
+
+    return {
+      raw_transaction: psbt.toBase64(),
+      signatures: this.getSignedKeyIds(psbt, wallet, walletKeys),
+      is_complete: finalized !== null,
+      signed_transaction: finalized?.hex ?? null,
+      transaction_hash: finalized?.txid ?? null
+    };
+  }
+};
@@ -0,0 +1,327 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import * as ecc from 'tiny-secp256k1';
+import { BIP32Factory, type BIP32Interface } from 'bip32';
+import { bitcoinService, type NetworkName } from '@/services/bitcoinService';
+import { cryptoService } from '@/services/cryptoService';
+import { hdWalletService, type AddressChain, type ExtendedKeyInfo } from '@/services/hdWalletService';
+import { psbtService } from '@/services/psbtService';
+import { walletService, type Wallet, type WalletKey } from '@/services/walletService';
+
+const bip32 = BIP32Factory(ecc);
+
+export type SignerType = 'software' | 'emulator' | 'external';
+
+export const SIGNER_TYPES: Array<{ value: SignerType; label: string; description: string }> = [
+  { value: 'software', label: 'Software', description: 'Private key encrypted in the wallet\'s key backup' },
+  { value: 'emulator', label: 'Emulator', description: 'Deterministic test device derived from a seed' },
+  { value: 'external', label: 'External', description: 'Held on another device; signs via PSBT files or QR codes' }
+];
+
+export interface Signer {
+  type: SignerType;
+  /** Extended public key at an account path, with the signer's master fingerprint */
+  getXpub(path: string): Promise<ExtendedKeyInfo>;
+  /** Add signatures to every input the signer holds a key for; returns the number of inputs signed */
+  signPsbt(psbt: bitcoin.Psbt): Promise<number>;
+  /** Derive a wallet address from the signer's own copy of the policy, so it can be checked against the app's */
+  displayAddress(wallet: Wallet, walletKeys: WalletKey[], chain: AddressChain, index: number): Promise<string>;
+  /** Sign with the key at `path`, or the signer's own key, returning a base64 BIP137 signature */
+  signMessage(message: string, path?: string): Promise<string>;
+}
+
+export type EmulatorResponse = 'approve' | 'reject';
+
+export interface EmulatorRequest {
+  action: 'getXpub' | 'signPsbt' | 'displayAddress' | 'signMessage';
+  // What a device screen would show for the request
+  detail: string;
+  response: EmulatorResponse;
+}
+
+export interface EmulatorSigner extends Signer {
+  masterFingerprint: string;
+  /** Every request made of the emulator, in order */
+  requests: EmulatorRequest[];
+  /** Script how the next requests are answered; requests are approved once the queue is empty */
+  queueResponses(...responses: EmulatorResponse[]): void;
+}
+
+const MESSAGE_MAGIC = '\x18Bitcoin Signed Message:\n';
+
+// BIP137 header for a compressed-key P2PKH signature, before adding the recovery id
+const COMPRESSED_HEADER = 31;
+
+const encodeVarInt = (value: number): Buffer => {
+  if (value < 0xfd) return Buffer.from([value]);
+  const buffer = Buffer.alloc(value <= 0xffff ? 3 : 5);
+  buffer[0] = value <= 0xffff ? 0xfd : 0xfe;
+  if (value <= 0xffff) buffer.writeUInt16LE(value, 1);
+  else buffer.writeUInt32LE(value, 1);
+  return buffer;
+};
+
+/**
+ * Double SHA256 of a message with the "Bitcoin Signed Message" prefix, as signed by wallets' sign message feature
+ */
+const getMessageHash = (message: string): Buffer => {
+  const body = Buffer.from(message, 'utf8');
+  return bitcoin.crypto.hash256(Buffer.concat([Buffer.from(MESSAGE_MAGIC, 'utf8'), encodeVarInt(body.length), body]));
+};
+
+const signMessageWithKey = (privateKey: Uint8Array, message: string): string => {
+  const { signature, recoveryId } = ecc.signRecoverable(getMessageHash(message), privateKey);
+  return Buffer.concat([Buffer.from([COMPRESSED_HEADER + recoveryId]), Buffer.from(signature)]).toString('base64');
+};
+
+/**
+ * Derive a wallet address independently of the one stored on the wallet
+ */
+const deriveWalletAddress = (wallet: Wallet, walletKeys: WalletKey[], chain: AddressChain, index: number): string => {
+  const options = bitcoinService.getMultisigOptions(wallet);
+  const derived = wallet.is_hd
+    ? hdWalletService.deriveMultisigAddress(wallet.m, hdWalletService.getExtendedKeys(walletKeys), chain, index, options)
+    : bitcoinService.createMultisigAddress(wallet.m, walletKeys.map(key => key.public_key), options);
+
+  if (!derived) {
+    throw new Error(`Failed to derive address ${chain}/${index}`);
+  }
+  return derived.address;
+};
+
+/**
+ * The part of `path` below an account path, which must use only unhardened steps since the account xpub derives it
+ */
+const getRelativePath = (accountPath: string, path: string): string => {
+  const normalized = hdWalletService.normalizeDerivationPath(path);
+  if (normalized === accountPath) return '';
+  if (!normalized.startsWith(`${accountPath}/`) || !/^\d+(\/\d+)*$/.test(normalized.substring(accountPath.length + 1))) {
+    throw new Error(`This key only holds the account at ${accountPath} and its unhardened children`);
+  }
+  return normalized.substring(accountPath.length + 1);
+};
+
+/**
+ * Signer for a co-signer key whose private key is held by the app. HD keys are account xprvs, others single keys.
+ */
+export const createSoftwareSigner = (wallet: Wallet, walletKey: WalletKey, privateKey: string): Signer => {
+  const { network } = bitcoinService.getMultisigOptions(wallet);
+  psbtService.checkPrivateKey(wallet, walletKey, privateKey);
+
+  const getAccountNode = (path: string): { node: BIP32Interface; accountPath: string } => {
+    if (!wallet.is_hd || !walletKey.derivation_path) {
+      throw new Error('Single-key co-signers have no extended keys');
+    }
+    const accountPath = walletKey.derivation_path;
+    const relative = getRelativePath(accountPath, path);
+    const account = hdWalletService.parseExtendedPrivateKey(privateKey, network);
+    return { node: relative ? account.derivePath(relative) : account, accountPath };
+  };
+
+  return {
+    type: 'software',
+
+    async getXpub(path: string) {
+      const { node } = getAccountNode(path);
+      return {
+        xpub: node.neutered().toBase58(),
+        masterFingerprint: walletKey.master_fingerprint || '',
+        derivationPath: hdWalletService.normalizeDerivationPath(path)
+      };
+    },
+
+    async signPsbt(psbt: bitcoin.Psbt) {
+      return psbtService.signPsbt(psbt, wallet, walletKey, privateKey);
+    },
+
+    async displayAddress(addressWallet: Wallet, walletKeys: WalletKey[], chain: AddressChain, index: number) {
+      if (addressWallet.id !== wallet.id || !walletKeys.some(key => key.id === walletKey.id)) {
+        throw new Error(`${walletKey.owner_name || 'This key'} is not a co-signer of this wallet`);
+      }
+      return deriveWalletAddress(addressWallet, walletKeys, chain, index);
+    },
+
+    async signMessage(message: string, path?: string) {
+      if (!wallet.is_hd && path) {
+        throw new Error('Single-key co-signers can only sign with their own key');
+      }
+      const key = wallet.is_hd
+        ? getAccountNode(path || walletKey.derivation_path || '').node.privateKey
+        : bitcoinService.getKeyPair(privateKey, network).privateKey;
+      if (!key) {
+        throw new Error('Private key is unavailable');
+      }
+      return signMessageWithKey(key, message);
+    }
+  };
+};
+
+/**
+ * Deterministic hardware signer emulator for automated tests: the same seed always yields the same keys and signatures.
+ * Like a device it holds the master key, signs any input whose BIP32 derivation names its fingerprint, and records
+ * each request; queue 'reject' responses to script a user declining on the device.
+ * Its keys are only as secret as the seed, so it refuses to run on mainnet.
+ */
+export const createEmulatorSigner = (seed: string, networkName: NetworkName = 'regtest', responses: EmulatorResponse[] = []): EmulatorSigner => {
+  if (networkName === 'mainnet') {
+    throw new Error('The emulator signer is for tests and cannot hold mainnet keys');
+  }
+  const network = bitcoinService.getNetwork(networkName);
+  const master = bip32.fromSeed(bitcoin.crypto.sha256(Buffer.from(seed, 'utf8')), network);
+  const masterFingerprint = Buffer.from(master.fingerprint).toString('hex');
+  const queue = [...responses];
+  const requests: EmulatorRequest[] = [];
+
+  const confirm = (action: EmulatorRequest['action'], detail: string) => {
+    const response = queue.shift() || 'approve';
+    requests.push({ action, detail, response });
+    if (response === 'reject') {
+      throw new Error(`Request rejected on the emulator: ${detail}`);
+    }
+  };
+
+  return {
+    type: 'emulator',
+    masterFingerprint,
+    requests,
+
+    queueResponses(...next: EmulatorResponse[]) {
+      queue.push(...next);
+    },
+
+    async getXpub(path: string) {
+      if (!hdWalletService.isValidDerivationPath(path)) {
+        throw new Error(`Invalid derivation path: ${path}`);
+      }
+      const derivationPath = hdWalletService.normalizeDerivationPath(path);
+      confirm('getXpub', `Export xpub at ${derivationPath}`);
+      return {
+        xpub: master.derivePath(derivationPath).neutered().toBase58(),
+        masterFingerprint,
+        derivationPath
+      };
+    },
+
+    async signPsbt(psbt: bitcoin.Psbt) {
+      const payments = psbt.txOutputs.map(output => `${output.value} sats to ${output.address || output.script.toString('hex')}`);
+      confirm('signPsbt', `Sign ${psbt.inputCount} input${psbt.inputCount === 1 ? '' : 's'} paying ${payments.join(', ')}`);
+
+      let signed = 0;
+      psbt.data.inputs.forEach((input, inputIndex) => {
+        const derivation = input.bip32Derivation?.find(d => d.masterFingerprint.toString('hex') === masterFingerprint);
+        if (!derivation || input.partialSig?.some(sig => sig.pubkey.equals(derivation.pubkey))) return;
+
+        const child = master.derivePath(derivation.path);
+        if (!child.publicKey.equals(derivation.pubkey)) {
+          throw new Error(`Input ${inputIndex} names this device's fingerprint with a key it does not hold`);
+        }
+        psbt.signInput(inputIndex, child);
+        signed++;
+      });
+
+      if (signed === 0) {
+        throw new Error(`Emulator ${masterFingerprint} holds no unsigned key for any input of this transaction`);
+      }
+      return signed;
+    },
+
+    async displayAddress(wallet: Wallet, walletKeys: WalletKey[], chain: AddressChain, index: number) {
+      // A device only shows addresses of policies that include one of its keys
+      const ownKey = walletKeys.find(key =>
+        key.master_fingerprint === masterFingerprint &&
+        key.derivation_path &&
+        key.xpub === master.derivePath(key.derivation_path).neutered().toBase58()
+      );
+      if (!ownKey) {
+        throw new Error(`Emulator ${masterFingerprint} holds none of this wallet's keys`);
+      }
+
+      const address = deriveWalletAddress(wallet, walletKeys, chain, index);
+      confirm('displayAddress', `Address ${chain}/${index}: ${address}`);
+      return address;
+    },
+
+    async signMessage(message: string, path?: string) {
+      if (!path || !hdWalletService.isValidDerivationPath(path)) {
+        throw new Error('The emulator signs messages with the key at a derivation path');
+      }
+      const derivationPath = hdWalletService.normalizeDerivationPath(path);
+      confirm('signMessage', `Sign "${message}" with ${derivationPath}`);
+      const key = master.derivePath(derivationPath).privateKey;
+      if (!key) {
+        throw new Error('Private key is unavailable');
+      }
+      return signMessageWithKey(key, message);
+    }
+  };
+};
+
+export const signerService = {
+  /**
+   * Check that a string is a supported signer type
+   */
+  isSignerType(value: string): value is SignerType {
+    return SIGNER_TYPES.some(type => type.value === value);
+  },
+
+  /**
+   * Get the display label for a signer type
+   */
+  getSignerLabel(signerType: string): string {
+    return SIGNER_TYPES.find(type => type.value === signerType)?.label || signerType;
+  },
+
+  /**
+   * Whether the app can sign with a wallet key itself, rather than exchanging the PSBT with another device
+   */
+  canSignInApp(walletKey: WalletKey): boolean {
+    return walletKey.signer_type === 'software' && !!walletKey.encrypted_private_key;
+  },
+
+  /**
+   * Sign a message with an account xprv, WIF or hex private key, returning a base64 BIP137 signature
+   */
+  signMessage(message: string, privateKey: string, networkName: NetworkName = 'mainnet'): string {
+    const key = /^[a-z]prv/i.test(privateKey.trim())
+      ? hdWalletService.parseExtendedPrivateKey(privateKey, networkName).privateKey
+      : bitcoinService.getKeyPair(privateKey, networkName).privateKey;
+    if (!key) {
+      throw new Error('Private key is unavailable');
+    }
+    return signMessageWithKey(key, message);
+  },
+
+  /**
+   * Decrypt a software key from the wallet's key backup and wrap it in a signer
+   */
+  async unlockSoftwareSigner(wallet: Wallet, walletKey: WalletKey, password: string): Promise<Signer> {
+    if (!walletKey.encrypted_private_key) {
+      throw new Error(`${walletKey.owner_name || 'This key'} is not stored in the key backup`);
+    }
+    const backup = await walletService.getKeyBackup(wallet.id);
+    if (!backup) {
+      throw new Error('This wallet has no key backup');
+    }
+    const privateKey = cryptoService.decrypt(walletKey.encrypted_private_key, password, backup.salt, walletKey.private_key_iv || backup.iv);
+    return createSoftwareSigner(wallet, walletKey, privateKey);
+  },
+
+  /**
+   * Verify a base64 BIP137 message signature against a hex public key
+   */
+  verifyMessage(message: string, signature: string, publicKey: string): boolean {
+    const bytes = Buffer.from(signature.trim(), 'base64');
+    if (bytes.length !== 65 || bytes[0] < 27 || bytes[0] > 42) return false;
+
+    const header = bytes[0] - 27;
+    const recovered = ecc.recover(getMessageHash(message), bytes.subarray(1), (header & 3) as 0 | 1 | 2 | 3, header >= 4);
+    if (!recovered) return false;
+
+    // Compare compressed forms, whichever form the signature or key uses
+    const compressed = (key: Uint8Array) => Buffer.from(ecc.pointCompress(key, true)).toString('hex');
+    try {
+      return compressed(recovered) === compressed(Buffer.from(publicKey, 'hex'));
+    } catch (error) {
+      return false;
+    }
+  }
+};
@@ -0,0 +1,90 @@
+import * as bitcoin from 'bitcoinjs-lib';
+import { UR, UREncoder, URDecoder } from '@ngraveio/bc-ur';
+
+export const CRYPTO_PSBT_TYPE = 'crypto-psbt';
+
+// PSBT bytes per animated frame, small enough for a screen-displayed QR code to scan quickly
+const MAX_FRAGMENT_LENGTH = 200;
+
+export interface UrScanProgress {
+  complete: boolean;
+  receivedParts: number;
+  expectedParts: number;
+  // Estimated share of the message recovered, 0-100
+  percent: number;
+}
+
+export const urService = {
+  /**
+   * Create a fountain encoder that yields an endless sequence of `ur:crypto-psbt` frames for a base64 PSBT.
+   * Short PSBTs fit in a single frame; `nextPart()` then returns the same single-part UR each time.
+   */
+  createPsbtEncoder(psbtBase64: string, maxFragmentLength: number = MAX_FRAGMENT_LENGTH): UREncoder {
+    // crypto-psbt is the PSBT wrapped as a CBOR byte string, the same body as the generic "bytes" type
+    const ur = new UR(UR.fromBuffer(Buffer.from(psbtBase64, 'base64')).cbor, CRYPTO_PSBT_TYPE);
+    return new UREncoder(ur, maxFragmentLength);
+  },
+
+  /**
+   * Create a decoder to collect scanned frames into
+   */
+  createDecoder(): URDecoder {
+    return new URDecoder();
+  },
+
+  /**
+   * Feed one scanned frame to a decoder. Frames may arrive in any order and repeat; throws a readable error
+   * for frames that are not crypto-psbt URs, fail their checksum, or complete into a corrupt message.
+   */
+  receivePart(decoder: URDecoder, part: string): UrScanProgress {
+    const trimmed = part.trim().toLowerCase();
+    if (!trimmed.startsWith('ur:')) {
+      throw new Error('Not a UR code: expected a ur:crypto-psbt QR code');
+    }
+
+    try {
+      const [type] = URDecoder.parse(trimmed);
+      if (type !== CRYPTO_PSBT_TYPE) {
+        throw new Error(`Expected a ${CRYPTO_PSBT_TYPE} UR, got ${type}`);
+      }
+      decoder.receivePart(trimmed);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(message === 'Invalid Checksum' ? 'Frame failed its checksum and was skipped' : `Unreadable UR frame: ${message}`);
+    }
+
+    if (decoder.isError()) {
+      throw new Error(`The reassembled PSBT failed its checksum (${decoder.resultError()}); restart the scan`);
+    }
+
+    const complete = decoder.isSuccess();
+    return {
+      complete,
+      receivedParts: decoder.receivedPartIndexes().length,
+      expectedParts: decoder.expectedPartCount(),
+      percent: complete ? 100 : Math.floor(decoder.estimatedPercentComplete() * 100)
+    };
+  },
+
+  /**
+   * Read the PSBT out of a completed decoder, as base64
+   */
+  getDecodedPsbt(decoder: URDecoder): string {
+    if (!decoder.isSuccess()) {
+      throw new Error('The UR has not been fully scanned yet');
+    }
+
+    const ur = decoder.resultUR();
+    if (ur.type !== CRYPTO_PSBT_TYPE) {
+      throw new Error(`Expected a ${CRYPTO_PSBT_TYPE} UR, got ${ur.type}`);
+    }
+
+    const psbtBuffer: Buffer = ur.decodeCBOR();
+    try {
+      bitcoin.Psbt.fromBuffer(psbtBuffer);
+    } catch (error) {
+      throw new Error('The scanned UR does not contain a valid PSBT');
+    }
+    return psbtBuffer.toString('base64');
+  }
+};
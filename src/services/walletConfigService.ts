@@ -0,0 +1,174 @@
+import { bitcoinService, type NetworkName, type ScriptType } from '@/services/bitcoinService';
+import { hdWalletService } from '@/services/hdWalletService';
+import { type ParsedDescriptor } from '@/services/descriptorService';
+import { type Wallet, type WalletKey } from '@/services/walletService';
+
+// Format names used in Coldcard/Sparrow multisig files; Coldcard also writes P2SH-P2WSH as P2WSH-P2SH
+const CONFIG_FORMATS: Record<ScriptType, string> = {
+  'p2sh': 'P2SH',
+  'p2sh-p2wsh': 'P2SH-P2WSH',
+  'p2wsh': 'P2WSH'
+};
+
+// Coldcard shows at most 20 characters of a wallet name
+const MAX_NAME_LENGTH = 20;
+
+const parseFormat = (format: string): ScriptType => {
+  const normalized = format.trim().toUpperCase();
+  if (normalized === 'P2WSH-P2SH') return 'p2sh-p2wsh';
+  const scriptType = (Object.keys(CONFIG_FORMATS) as ScriptType[]).find(type => CONFIG_FORMATS[type] === normalized);
+  if (!scriptType) {
+    throw new Error(`Unsupported format "${format}": expected P2SH, P2SH-P2WSH or P2WSH`);
+  }
+  return scriptType;
+};
+
+export const walletConfigService = {
+  /**
+   * Write an HD wallet as a Coldcard/Sparrow multisig setup file, for registering the policy on signing devices
+   */
+  exportWalletConfig(wallet: Wallet, walletKeys: WalletKey[]): string {
+    if (!wallet.is_hd) {
+      throw new Error('Only HD wallets with extended public keys can be registered on signing devices');
+    }
+    if (walletKeys.length !== wallet.n) {
+      throw new Error(`Wallet has ${walletKeys.length} of ${wallet.n} keys`);
+    }
+
+    const { scriptType, sortedKeys } = bitcoinService.getMultisigOptions(wallet);
+    if (!sortedKeys) {
+      throw new Error('Signing devices only support wallets with sorted keys (BIP67)');
+    }
+
+    const extendedKeys = hdWalletService.getExtendedKeys(walletKeys);
+    const sharedPath = extendedKeys.every(key => key.derivationPath === extendedKeys[0].derivationPath);
+
+    const lines = [
+      '# Multisig setup file (created by BTCMultisig)',
+      '#',
+      `Name: ${wallet.name.replace(/[^\x20-\x7e]/g, '').replace(/\s+/g, ' ').trim().substring(0, MAX_NAME_LENGTH) || 'Multisig'}`,
+      `Policy: ${wallet.m} of ${wallet.n}`,
+      ...(sharedPath ? [`Derivation: ${extendedKeys[0].derivationPath}`] : []),
+      `Format: ${CONFIG_FORMATS[scriptType]}`,
+      ''
+    ];
+
+    // Keys on different paths each get their own Derivation line
+    extendedKeys.forEach(key => {
+      if (!sharedPath) lines.push(`Derivation: ${key.derivationPath}`);
+      lines.push(`${key.masterFingerprint.toUpperCase()}: ${key.xpub}`);
+    });
+
+    return lines.join('\n') + '\n';
+  },
+
+  /**
+   * Parse a Coldcard/Sparrow multisig setup file into a wallets row and its wallet_keys rows.
+   * The file's Name wins over `name`; a Derivation line applies to every key line after it.
+   */
+  parseWalletConfig(text: string, name: string, networkName: NetworkName = 'mainnet'): ParsedDescriptor {
+    let configName: string | null = null;
+    let policy: { m: number; n: number } | null = null;
+    let scriptType: ScriptType | null = null;
+    let derivationPath: string | null = null;
+    const keys: ParsedDescriptor['keys'] = [];
+
+    const lines = text.split(/\r?\n/);
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i].trim();
+      if (!line || line.startsWith('#')) continue;
+
+      const separator = line.indexOf(':');
+      if (separator === -1) {
+        throw new Error(`Line ${i + 1}: expected "Name: value" or "fingerprint: xpub"`);
+      }
+      const label = line.substring(0, separator).trim();
+      const value = line.substring(separator + 1).trim();
+
+      if (hdWalletService.isValidFingerprint(label)) {
+        if (!derivationPath) {
+          throw new Error(`Line ${i + 1}: key ${label} has no Derivation line before it`);
+        }
+        let node;
+        try {
+          node = hdWalletService.parseExtendedKey(value, networkName);
+        } catch (error) {
+          throw new Error(`Line ${i + 1}: ${error instanceof Error ? error.message : 'invalid extended public key'}`);
+        }
+        keys.push({
+          key_index: keys.length,
+          owner_name: `Key ${keys.length + 1}`,
+          public_key: node.publicKey.toString('hex'),
+          xpub: node.toBase58(),
+          master_fingerprint: label.toLowerCase(),
+          derivation_path: derivationPath
+        });
+        continue;
+      }
+
+      switch (label.toLowerCase()) {
+        case 'name':
+          configName = value;
+          break;
+        case 'policy': {
+          const match = /^(\d+)\s*of\s*(\d+)$/i.exec(value);
+          if (!match) {
+            throw new Error(`Line ${i + 1}: expected a policy like "2 of 3", got "${value}"`);
+          }
+          policy = { m: parseInt(match[1], 10), n: parseInt(match[2], 10) };
+          break;
+        }
+        case 'derivation':
+          if (!hdWalletService.isValidDerivationPath(value)) {
+            throw new Error(`Line ${i + 1}: invalid derivation path "${value}"`);
+          }
+          derivationPath = hdWalletService.normalizeDerivationPath(value);
+          break;
+        case 'format':
+          scriptType = parseFormat(value);
+          break;
+        default:
+          // Other headers some wallets add are not needed to rebuild the wallet
+          break;
+      }
+    }
+
+    if (!policy) {
+      throw new Error('Config file is missing its Policy line');
+    }
+    const { m, n } = policy;
+    if (keys.length !== n) {
+      throw new Error(`Policy is ${m} of ${n}, but the file lists ${keys.length} keys`);
+    }
+    if (m < 1 || m > n) {
+      throw new Error(`Invalid multisig threshold: ${m} of ${n}`);
+    }
+    if (n > 15) {
+      throw new Error(`Multisig wallets support at most 15 keys, file has ${n}`);
+    }
+
+    const fingerprints = keys.map(key => key.master_fingerprint);
+    const xpubs = keys.map(key => key.xpub);
+    if (new Set(xpubs).size !== n) {
+      throw new Error('The same extended public key is listed more than once');
+    }
+    if (new Set(fingerprints).size !== n) {
+      throw new Error('The same master fingerprint is listed more than once');
+    }
+
+    return {
+      wallet: {
+        name: configName || name,
+        m,
+        n,
+        // Files without a Format line describe Coldcard's original P2SH wallets
+        script_type: scriptType || 'p2sh',
+        network: networkName,
+        sorted_keys: true,
+        is_hd: true,
+        is_complete: false
+      },
+      keys
+    };
+  }
+};
@@ -5,6 +5,9 @@ export type Wallet = Tables<'wallets'>;
 export type WalletKey = Tables<'wallet_keys'>;
 export type Transaction = Tables<'transactions'>;
 export type KeyBackup = Tables<'key_backups'>;
+export type WalletAddress = Tables<'wallet_addresses'>;
+export type Utxo = Tables<'utxos'>;
+export type TransactionOutput = Tables<'transaction_outputs'>;
 
 export const walletService = {
   // Wallet operations
@@ -67,6 +70,42 @@ export const walletService = {
     return data || [];
   },
 
+  // Wallet address operations
+  async addWalletAddress(walletAddress: Omit<TablesInsert<'wallet_addresses'>, 'id'>) {
+    const { data, error } = await supabase
+      .from('wallet_addresses')
+      .insert(walletAddress)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  async getWalletAddresses(walletId: string) {
+    const { data, error } = await supabase
+      .from('wallet_addresses')
+      .select('*')
+      .eq('wallet_id', walletId)
+      .order('chain', { ascending: true })
+      .order('address_index', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async updateWalletAddress(id: string, updates: TablesUpdate<'wallet_addresses'>) {
+    const { data, error } = await supabase
+      .from('wallet_addresses')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
   // Transaction operations
   async createTransaction(transaction: Omit<TablesInsert<'transactions'>, 'id'>) {
     const { data, error } = await supabase
@@ -102,27 +141,86 @@ export const walletService = {
     return data;
   },
 
-  async addTransactionSignature(transactionId: string, signature: string) {
-    // Get current transaction
-    const { data: transaction, error: fetchError } = await supabase
+  async cancelTransaction(id: string) {
+    // Release the transaction's reserved utxos before removing it
+    await this.releaseUtxos(id);
+
+    const { error } = await supabase
       .from('transactions')
-      .select('signatures, required_signatures')
-      .eq('id', transactionId)
-      .single();
+      .delete()
+      .eq('id', id);
 
-    if (fetchError) throw fetchError;
+    if (error) throw error;
+  },
 
-    const currentSignatures = transaction.signatures as string[] || [];
-    const newSignatures = [...currentSignatures, signature];
-    const isComplete = newSignatures.length >= transaction.required_signatures;
+  // Transaction output operations
+  async addTransactionOutputs(outputs: Omit<TablesInsert<'transaction_outputs'>, 'id'>[]) {
+    if (outputs.length === 0) return [];
 
     const { data, error } = await supabase
-      .from('transactions')
-      .update({
-        signatures: newSignatures,
-        is_complete: isComplete
-      })
-      .eq('id', transactionId)
+      .from('transaction_outputs')
+      .insert(outputs)
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getTransactionOutputs(transactionIds: string[]) {
+    if (transactionIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('transaction_outputs')
+      .select('*')
+      .in('transaction_id', transactionIds)
+      .order('output_index', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  // UTXO operations
+  async saveUtxos(utxos: Omit<TablesInsert<'utxos'>, 'id'>[]) {
+    if (utxos.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('utxos')
+      .upsert(utxos, { onConflict: 'wallet_id,txid,vout' })
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getWalletUtxos(walletId: string) {
+    const { data, error } = await supabase
+      .from('utxos')
+      .select('*')
+      .eq('wallet_id', walletId)
+      .order('confirmation_height', { ascending: true, nullsFirst: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async getSpendableUtxos(walletId: string) {
+    const { data, error } = await supabase
+      .from('utxos')
+      .select('*')
+      .eq('wallet_id', walletId)
+      .is('spent_by_txid', null)
+      .is('locked_by', null)
+      .order('confirmation_height', { ascending: true, nullsFirst: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  async updateUtxo(id: string, updates: TablesUpdate<'utxos'>) {
+    const { data, error } = await supabase
+      .from('utxos')
+      .update(updates)
+      .eq('id', id)
       .select()
       .single();
 
@@ -130,6 +228,100 @@ export const walletService = {
     return data;
   },
 
+  async lockUtxos(utxoIds: string[], transactionId: string) {
+    // Only unlocked utxos are reserved, so two pending transactions cannot spend the same output
+    const { data, error } = await supabase
+      .from('utxos')
+      .update({ locked_by: transactionId })
+      .in('id', utxoIds)
+      .is('locked_by', null)
+      .select();
+
+    if (error) throw error;
+
+    if ((data || []).length !== utxoIds.length) {
+      await this.releaseUtxos(transactionId);
+      throw new Error('Some of the selected coins are already reserved by another transaction');
+    }
+    return data;
+  },
+
+  async releaseUtxos(transactionId: string) {
+    const { error } = await supabase
+      .from('utxos')
+      .update({ locked_by: null })
+      .eq('locked_by', transactionId);
+
+    if (error) throw error;
+  },
+
+  async markUtxosSpent(transactionId: string, spendingTxid: string) {
+    const { error } = await supabase
+      .from('utxos')
+      .update({ spent_by_txid: spendingTxid, locked_by: null })
+      .eq('locked_by', transactionId);
+
+    if (error) throw error;
+  },
+
+  async reassignSpentUtxos(fromTxid: string, toTxid: string) {
+    const { error } = await supabase
+      .from('utxos')
+      .update({ spent_by_txid: toTxid })
+      .eq('spent_by_txid', fromTxid);
+
+    if (error) throw error;
+  },
+
+  async markOutpointsSpent(walletId: string, outpoints: Array<{ txid: string; vout: number }>, spendingTxid: string) {
+    for (const outpoint of outpoints) {
+      const { error } = await supabase
+        .from('utxos')
+        .update({ spent_by_txid: spendingTxid, locked_by: null })
+        .eq('wallet_id', walletId)
+        .eq('txid', outpoint.txid)
+        .eq('vout', outpoint.vout);
+
+      if (error) throw error;
+    }
+  },
+
+  async removeMissingUtxos(walletId: string, address: string, outpoints: Array<{ txid: string; vout: number }>) {
+    // Unspent, unreserved coins the chain no longer lists were spent elsewhere, e.g. by another coordinator
+    const { data, error } = await supabase
+      .from('utxos')
+      .select('id, txid, vout')
+      .eq('wallet_id', walletId)
+      .eq('address', address)
+      .is('spent_by_txid', null)
+      .is('locked_by', null);
+
+    if (error) throw error;
+
+    const missingIds = (data || [])
+      .filter(utxo => !outpoints.some(outpoint => outpoint.txid === utxo.txid && outpoint.vout === utxo.vout))
+      .map(utxo => utxo.id);
+    if (missingIds.length === 0) return 0;
+
+    const { error: deleteError } = await supabase
+      .from('utxos')
+      .delete()
+      .in('id', missingIds);
+
+    if (deleteError) throw deleteError;
+    return missingIds.length;
+  },
+
+  async restoreUtxos(transactionId: string, spendingTxid: string) {
+    // A spend that never confirmed gives its coins back, reserved again for the transaction that tried to spend them
+    const { error } = await supabase
+      .from('utxos')
+      .update({ spent_by_txid: null, locked_by: transactionId })
+      .eq('spent_by_txid', spendingTxid);
+
+    if (error) throw error;
+  },
+
   // Key backup operations
   async createKeyBackup(walletId: string, salt: string, iv: string) {
     const { data, error } = await supabase
@@ -157,10 +349,10 @@ export const walletService = {
     return data;
   },
 
-  async updateWalletKeyWithPrivateKey(keyId: string, encryptedPrivateKey: string) {
+  async updateWalletKeyWithPrivateKey(keyId: string, encryptedPrivateKey: string, iv: string) {
     const { data, error } = await supabase
       .from('wallet_keys')
-      .update({ encrypted_private_key: encryptedPrivateKey })
+      .update({ encrypted_private_key: encryptedPrivateKey, private_key_iv: iv, signer_type: 'software' })
       .eq('id', keyId)
       .select()
       .single();
@@ -0,0 +1,4 @@
+-- Add multisig script type to wallets (legacy P2SH, nested SegWit or native SegWit)
+ALTER TABLE public.wallets
+ADD COLUMN script_type TEXT NOT NULL DEFAULT 'p2sh'
+CHECK (script_type IN ('p2sh', 'p2sh-p2wsh', 'p2wsh'));
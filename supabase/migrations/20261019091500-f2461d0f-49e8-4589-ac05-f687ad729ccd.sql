@@ -0,0 +1,4 @@
+-- Add Bitcoin network to wallets so test networks can be used alongside mainnet
+ALTER TABLE public.wallets
+ADD COLUMN network TEXT NOT NULL DEFAULT 'mainnet'
+CHECK (network IN ('mainnet', 'testnet', 'signet', 'regtest'));
@@ -0,0 +1,7 @@
+-- Track BIP67 key sorting per wallet. Existing wallets were built from keys in
+-- insertion order, so they keep unsorted keys; new wallets sort by default.
+ALTER TABLE public.wallets
+ADD COLUMN sorted_keys BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE public.wallets
+ALTER COLUMN sorted_keys SET DEFAULT true;
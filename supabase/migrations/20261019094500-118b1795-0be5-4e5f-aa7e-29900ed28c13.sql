@@ -0,0 +1,63 @@
+-- HD multisig wallets built from co-signer extended public keys (BIP48)
+ALTER TABLE public.wallets ADD COLUMN is_hd BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.wallets ADD COLUMN next_receive_index INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.wallets ADD COLUMN next_change_index INTEGER NOT NULL DEFAULT 0;
+
+-- Extended key, origin fingerprint and account derivation path for each co-signer
+ALTER TABLE public.wallet_keys ADD COLUMN xpub TEXT;
+ALTER TABLE public.wallet_keys ADD COLUMN master_fingerprint TEXT;
+ALTER TABLE public.wallet_keys ADD COLUMN derivation_path TEXT;
+
+-- Create wallet_addresses table for receive (chain 0) and change (chain 1) addresses
+CREATE TABLE public.wallet_addresses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  wallet_id UUID NOT NULL REFERENCES public.wallets(id) ON DELETE CASCADE,
+  chain INTEGER NOT NULL CHECK (chain IN (0, 1)),
+  address_index INTEGER NOT NULL CHECK (address_index >= 0),
+  address TEXT NOT NULL,
+  script_hex TEXT NOT NULL,
+  is_used BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(wallet_id, chain, address_index),
+  UNIQUE(wallet_id, address)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.wallet_addresses ENABLE ROW LEVEL SECURITY;
+
+-- Wallet addresses RLS policies
+CREATE POLICY "Users can view addresses for their wallets" 
+ON public.wallet_addresses 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = wallet_addresses.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can add addresses to their wallets" 
+ON public.wallet_addresses 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = wallet_addresses.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can update addresses in their wallets" 
+ON public.wallet_addresses 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = wallet_addresses.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete addresses from their wallets" 
+ON public.wallet_addresses 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = wallet_addresses.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
@@ -0,0 +1,3 @@
+-- Store the finalized network-serialized transaction once a PSBT has enough signatures
+ALTER TABLE public.transactions
+ADD COLUMN signed_transaction TEXT;
@@ -0,0 +1,72 @@
+-- Create utxos table for the outputs each wallet owns
+CREATE TABLE public.utxos (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  wallet_id UUID NOT NULL REFERENCES public.wallets(id) ON DELETE CASCADE,
+  address TEXT NOT NULL,
+  txid TEXT NOT NULL,
+  vout INTEGER NOT NULL CHECK (vout >= 0),
+  value_satoshis BIGINT NOT NULL CHECK (value_satoshis > 0),
+  script_hex TEXT NOT NULL,
+  confirmation_height INTEGER,
+  spent_by_txid TEXT,
+  -- Pending transaction that has reserved this output as an input
+  locked_by UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(wallet_id, txid, vout)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.utxos ENABLE ROW LEVEL SECURITY;
+
+-- UTXOs RLS policies
+CREATE POLICY "Users can view utxos for their wallets" 
+ON public.utxos 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = utxos.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can add utxos to their wallets" 
+ON public.utxos 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = utxos.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can update utxos in their wallets" 
+ON public.utxos 
+FOR UPDATE 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = utxos.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete utxos from their wallets" 
+ON public.utxos 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = utxos.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+-- Pending transactions can be cancelled, which releases their reserved utxos
+CREATE POLICY "Users can delete transactions for their wallets" 
+ON public.transactions 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.wallets 
+  WHERE wallets.id = transactions.wallet_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE TRIGGER update_utxos_updated_at
+BEFORE UPDATE ON public.utxos
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,40 @@
+-- Create chain_backend_settings table for each user's blockchain backend per network
+CREATE TABLE public.chain_backend_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  network TEXT NOT NULL CHECK (network IN ('mainnet', 'testnet', 'signet', 'regtest')),
+  backend TEXT NOT NULL CHECK (backend IN ('esplora', 'electrum', 'mock')),
+  url TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, network)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.chain_backend_settings ENABLE ROW LEVEL SECURITY;
+
+-- Chain backend settings RLS policies
+CREATE POLICY "Users can view their own chain backend settings" 
+ON public.chain_backend_settings 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own chain backend settings" 
+ON public.chain_backend_settings 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own chain backend settings" 
+ON public.chain_backend_settings 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own chain backend settings" 
+ON public.chain_backend_settings 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_chain_backend_settings_updated_at
+BEFORE UPDATE ON public.chain_backend_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,6 @@
+-- Track broadcast transactions until they confirm, or are replaced or dropped from the mempool
+ALTER TABLE public.transactions
+ADD COLUMN broadcast_status TEXT CHECK (broadcast_status IN ('unconfirmed', 'confirmed', 'replaced', 'dropped')),
+ADD COLUMN broadcast_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN block_height INTEGER,
+ADD COLUMN confirmations INTEGER NOT NULL DEFAULT 0;
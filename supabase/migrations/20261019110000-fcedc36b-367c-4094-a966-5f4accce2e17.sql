@@ -0,0 +1,3 @@
+-- Link a fee-bumped replacement (BIP125) to the transaction it replaces
+ALTER TABLE public.transactions
+ADD COLUMN replaces_transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL;
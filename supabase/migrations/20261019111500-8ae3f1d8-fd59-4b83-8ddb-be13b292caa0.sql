@@ -0,0 +1,3 @@
+-- Record the unconfirmed parent a child-pays-for-parent transaction accelerates
+ALTER TABLE public.transactions
+ADD COLUMN parent_txid TEXT;
@@ -0,0 +1,45 @@
+-- Create transaction_outputs table for the payees of batch transactions
+CREATE TABLE public.transaction_outputs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL REFERENCES public.transactions(id) ON DELETE CASCADE,
+  output_index INTEGER NOT NULL CHECK (output_index >= 0),
+  address TEXT NOT NULL,
+  amount_satoshis BIGINT NOT NULL CHECK (amount_satoshis > 0),
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(transaction_id, output_index)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.transaction_outputs ENABLE ROW LEVEL SECURITY;
+
+-- Transaction outputs RLS policies
+CREATE POLICY "Users can view outputs of their transactions" 
+ON public.transaction_outputs 
+FOR SELECT 
+USING (EXISTS (
+  SELECT 1 FROM public.transactions 
+  JOIN public.wallets ON wallets.id = transactions.wallet_id 
+  WHERE transactions.id = transaction_outputs.transaction_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can add outputs to their transactions" 
+ON public.transaction_outputs 
+FOR INSERT 
+WITH CHECK (EXISTS (
+  SELECT 1 FROM public.transactions 
+  JOIN public.wallets ON wallets.id = transactions.wallet_id 
+  WHERE transactions.id = transaction_outputs.transaction_id 
+  AND wallets.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can delete outputs of their transactions" 
+ON public.transaction_outputs 
+FOR DELETE 
+USING (EXISTS (
+  SELECT 1 FROM public.transactions 
+  JOIN public.wallets ON wallets.id = transactions.wallet_id 
+  WHERE transactions.id = transaction_outputs.transaction_id 
+  AND wallets.user_id = auth.uid()
+));
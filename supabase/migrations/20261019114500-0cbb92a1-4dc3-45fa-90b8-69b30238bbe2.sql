@@ -0,0 +1,8 @@
+-- Record which kind of signer holds each co-signer key
+ALTER TABLE public.wallet_keys
+ADD COLUMN signer_type TEXT NOT NULL DEFAULT 'external' CHECK (signer_type IN ('software', 'emulator', 'external'));
+
+-- Keys already stored in an encrypted backup are signed in the app
+UPDATE public.wallet_keys
+SET signer_type = 'software'
+WHERE encrypted_private_key IS NOT NULL;
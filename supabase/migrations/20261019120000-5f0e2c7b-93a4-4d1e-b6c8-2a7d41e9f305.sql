@@ -0,0 +1,4 @@
+-- Record when and how each co-signer proved control of its key before joining the wallet
+ALTER TABLE public.wallet_keys
+ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN verification_method TEXT CHECK (verification_method IN ('signmessage', 'bip322'));
@@ -0,0 +1,3 @@
+-- Each stored private key gets its own IV; keys stored before this use the backup's shared IV
+ALTER TABLE public.wallet_keys
+ADD COLUMN private_key_iv TEXT;
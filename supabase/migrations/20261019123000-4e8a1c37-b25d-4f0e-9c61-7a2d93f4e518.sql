@@ -0,0 +1,3 @@
+-- Count consecutive status checks that could not find a broadcast transaction, so one miss does not mark it dropped
+ALTER TABLE public.transactions
+ADD COLUMN missing_checks INTEGER NOT NULL DEFAULT 0;
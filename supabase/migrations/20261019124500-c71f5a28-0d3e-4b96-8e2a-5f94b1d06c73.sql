@@ -0,0 +1,4 @@
+-- Keys brought in by a descriptor or config file import carry no proof; record them as imported rather than leave them blank
+ALTER TABLE public.wallet_keys
+DROP CONSTRAINT wallet_keys_verification_method_check,
+ADD CONSTRAINT wallet_keys_verification_method_check CHECK (verification_method IN ('signmessage', 'bip322', 'imported'));